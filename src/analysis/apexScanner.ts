@@ -0,0 +1,191 @@
+import { SourceReference } from "../types";
+
+// Objects, settings and metadata types the workspace can define
+const CUSTOM_OBJECT_SUFFIX = /__(c|mdt|e|b|x)$/i;
+
+// Words that look like type references but never name a workspace component
+const APEX_KEYWORDS = new Set(
+  `abstract after and as asc before blob boolean break by catch class
+  continue date datetime decimal default delete desc do double else
+  enum extends false final finally for from get global id if
+  implements in insert instanceof integer interface inherited limit
+  list long map merge new not null object on or order override
+  private protected public return select set sharing static string
+  super switch system testmethod this throw time transient trigger
+  true try undelete update upsert virtual void when where while with
+  without`.split(/\s+/)
+);
+
+// Words that can precede a name without declaring it: "return x;", "insert acc;"
+const STATEMENT_KEYWORDS = new Set(
+  `return throw new else when in on from where and or not like instanceof
+  insert update upsert delete undelete merge`.split(/\s+/)
+);
+
+/**
+ * Reads Apex source and lists what it references: classes (including the
+ * outer class of inner types), SObjects, fields in SOQL and dot-notation,
+ * custom labels and custom settings. Candidates only; the caller keeps the
+ * ones the workspace defines. Uses no VS Code APIs.
+ */
+export class ApexScanner {
+  /**
+   * Scan the source of a .cls or .trigger file
+   */
+  public static scan(source: string): SourceReference[] {
+    const code = this.stripCommentsAndStrings(source);
+    const references = new Map<string, SourceReference>();
+    const add = (type: string, name: string, reason: string) => {
+      const key = `${type}:${name}`.toLowerCase();
+      if (!references.has(key)) {
+        references.set(key, { type, name, reason });
+      }
+    };
+
+    const declared = this.declaredNames(code);
+    const variables = this.variableTypes(code);
+
+    // trigger MyTrigger on Invoice__c (before insert)
+    for (const match of code.matchAll(/\btrigger\s+\w+\s+on\s+(\w+)/gi)) {
+      if (CUSTOM_OBJECT_SUFFIX.test(match[1])) {
+        add("CustomObject", match[1], "trigger object");
+      }
+    }
+
+    // System.Label.My_Label / Label.My_Label
+    for (const match of code.matchAll(
+      /(?<![\w.])(?:System\.)?Label\.(\w+)/gi
+    )) {
+      add("CustomLabel", match[1], "custom label");
+    }
+
+    // My_Settings__c.getInstance(), getOrgDefaults(), getValues(...), getAll()
+    for (const match of code.matchAll(
+      /(?<![\w.])(\w+__c)\.(?:getInstance|getOrgDefaults|getValues|getAll)\s*\(/gi
+    )) {
+      add("CustomObject", match[1], "custom setting");
+    }
+
+    // [SELECT Id, Status__c, Parent__r.Name FROM Invoice__c WHERE ...]
+    for (const match of code.matchAll(
+      /\[\s*SELECT\b([\s\S]*?)\bFROM\s+(\w+)([^\]]*)\]/gi
+    )) {
+      const objectName = match[2];
+      if (CUSTOM_OBJECT_SUFFIX.test(objectName)) {
+        add("CustomObject", objectName, "SOQL object");
+      }
+      for (const field of `${match[1]} ${match[3]}`.matchAll(
+        /(?<![\w.])(\w+)__(c|r)\b/gi
+      )) {
+        add("CustomField", `${objectName}.${field[1]}__c`, "SOQL field");
+      }
+    }
+
+    // new Invoice__c(Status__c = 'Open')
+    for (const match of code.matchAll(/\bnew\s+(\w+)\s*\(([^)]*)\)/gi)) {
+      for (const field of match[2].matchAll(/(?<![\w.])(\w+__c)\s*=/gi)) {
+        add("CustomField", `${match[1]}.${field[1]}`, "field in constructor");
+      }
+    }
+
+    // Account.Status__c, Schema.Account.Status__c, invoice.Status__c
+    for (const match of code
+      .replace(/\bSchema\./gi, "")
+      .matchAll(/(?<![\w.])(\w+)\.(\w+)__(c|r)\b/gi)) {
+      const owner = variables.get(match[1].toLowerCase()) || match[1];
+      if (!APEX_KEYWORDS.has(owner.toLowerCase())) {
+        add("CustomField", `${owner}.${match[2]}__c`, "field reference");
+      }
+    }
+
+    // Type names: declarations, casts, generics, static calls, Outer.Inner
+    // (not annotations such as @isTest)
+    for (const match of code.matchAll(/(?<![\w.@])([A-Za-z]\w*)\b(?!\s*\()/g)) {
+      const name = match[1];
+      const lower = name.toLowerCase();
+      if (
+        APEX_KEYWORDS.has(lower) ||
+        declared.has(lower) ||
+        variables.has(lower)
+      ) {
+        continue;
+      }
+      if (CUSTOM_OBJECT_SUFFIX.test(name)) {
+        add("CustomObject", name, "SObject type");
+      } else if (!/__/.test(name)) {
+        add("ApexClass", name, "type reference");
+      }
+    }
+
+    // Constructors: new AccountService(...), new Invoice__c(...)
+    for (const match of code.matchAll(/\bnew\s+(\w+)\s*\(/gi)) {
+      if (CUSTOM_OBJECT_SUFFIX.test(match[1])) {
+        add("CustomObject", match[1], "SObject type");
+      } else if (
+        !declared.has(match[1].toLowerCase()) &&
+        !/__/.test(match[1])
+      ) {
+        add("ApexClass", match[1], "constructor call");
+      }
+    }
+
+    return Array.from(references.values());
+  }
+
+  /**
+   * Whether the source is a test class (@isTest)
+   */
+  public static isTestClass(source: string): boolean {
+    return /@isTest\b/i.test(this.stripCommentsAndStrings(source));
+  }
+
+  /**
+   * The SObject a trigger fires on, or null when the source isn't a trigger
+   */
+  public static triggerObject(source: string): string | null {
+    const match = this.stripCommentsAndStrings(source).match(
+      /\btrigger\s+\w+\s+on\s+(\w+)/i
+    );
+    return match ? match[1] : null;
+  }
+
+  /**
+   * Blank out comments and string literals so their contents aren't read as code
+   */
+  private static stripCommentsAndStrings(source: string): string {
+    return source.replace(
+      /\/\*[\s\S]*?\*\/|\/\/[^\n]*|'(?:\\.|[^'\\\n])*'/g,
+      (match) => (match.startsWith("'") ? "''" : " ")
+    );
+  }
+
+  /**
+   * Names the file defines itself: the class or trigger and its inner types
+   */
+  private static declaredNames(code: string): Set<string> {
+    const names = new Set<string>();
+    for (const match of code.matchAll(
+      /\b(?:class|interface|enum|trigger)\s+(\w+)/gi
+    )) {
+      names.add(match[1].toLowerCase());
+    }
+    return names;
+  }
+
+  /**
+   * Declared variables and their types: "Invoice__c inv", "List<Invoice__c> invoices",
+   * "for (Invoice__c inv : ...)"; collections map to their element type
+   */
+  private static variableTypes(code: string): Map<string, string> {
+    const variables = new Map<string, string>();
+    for (const match of code.matchAll(
+      /\b(\w+)(?:\s*<\s*(?:\w+\s*,\s*)?(\w+)\s*>)?\s+(\w+)\s*(?=[=;:,)])/g
+    )) {
+      if (STATEMENT_KEYWORDS.has(match[1].toLowerCase())) {
+        continue;
+      }
+      variables.set(match[3].toLowerCase(), match[2] || match[1]);
+    }
+    return variables;
+  }
+}
@@ -0,0 +1,175 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import { AnalyzedDependency, ComponentInfo, SourceReference } from "../types";
+import { ComponentLocator } from "../utils/componentLocator";
+import { ApexScanner } from "./apexScanner";
+import { LightningScanner } from "./lightningScanner";
+import { MetadataXmlScanner } from "./metadataXmlScanner";
+
+/**
+ * Works out, before the first deploy, which workspace components the
+ * selected components reference, and what those reference in turn
+ */
+export class DependencyAnalyzer {
+  private componentLocator: ComponentLocator;
+  private outputChannel?: vscode.OutputChannel;
+
+  constructor(
+    componentLocator: ComponentLocator,
+    outputChannel?: vscode.OutputChannel
+  ) {
+    this.componentLocator = componentLocator;
+    this.outputChannel = outputChannel;
+  }
+
+  /**
+   * The dependency closure of the components, excluding the components themselves
+   * Only references the workspace defines are kept
+   */
+  public async analyze(
+    components: ComponentInfo[]
+  ): Promise<AnalyzedDependency[]> {
+    const seen = new Set(components.map((c) => this.key(c)));
+    const queue = [...components];
+    const dependencies: AnalyzedDependency[] = [];
+    const byKey = new Map<string, AnalyzedDependency>();
+
+    while (queue.length > 0) {
+      const component = queue.shift()!;
+      const files = await this.componentLocator.getComponentFiles(component);
+
+      for (const reference of this.scanFiles(component, files)) {
+        const resolved = await this.componentLocator.resolveComponent(
+          reference.type,
+          reference.name,
+          {
+            message: reference.reason,
+            componentType: component.type,
+            componentName: component.name,
+            fileName: files[0],
+          }
+        );
+        if (!resolved) {
+          continue;
+        }
+        const known = byKey.get(this.key(resolved));
+        if (
+          known &&
+          known.component !== component &&
+          !known.referrers.includes(component)
+        ) {
+          known.referrers.push(component);
+        }
+        if (seen.has(this.key(resolved))) {
+          continue;
+        }
+
+        seen.add(this.key(resolved));
+        const dependency: AnalyzedDependency = {
+          component: resolved,
+          reason: reference.reason,
+          referencedBy: component,
+          referrers: [component],
+        };
+        byKey.set(this.key(resolved), dependency);
+        dependencies.push(dependency);
+        queue.push(resolved);
+      }
+    }
+
+    return dependencies;
+  }
+
+  /**
+   * The dependencies still reachable from the components once some are left out:
+   * a dependency stays while one of its referrers is a component or a kept dependency
+   */
+  public static withoutOrphans(
+    dependencies: AnalyzedDependency[],
+    components: ComponentInfo[]
+  ): AnalyzedDependency[] {
+    let kept = dependencies;
+    while (true) {
+      const reachable = new Set([
+        ...components,
+        ...kept.map((dependency) => dependency.component),
+      ]);
+      const next = kept.filter((dependency) =>
+        dependency.referrers.some((referrer) => reachable.has(referrer))
+      );
+      if (next.length === kept.length) {
+        return kept;
+      }
+      kept = next;
+    }
+  }
+
+  /**
+   * For each component, the other components of the set its source references
+   */
+  public async referencesWithin(
+    components: ComponentInfo[]
+  ): Promise<Map<ComponentInfo, ComponentInfo[]>> {
+    const byKey = new Map(components.map((c) => [this.key(c), c]));
+    const graph = new Map<ComponentInfo, ComponentInfo[]>();
+
+    for (const component of components) {
+      const files = await this.componentLocator.getComponentFiles(component);
+      const references = new Set<ComponentInfo>();
+      for (const reference of this.scanFiles(component, files)) {
+        const resolved = await this.componentLocator.resolveComponent(
+          reference.type,
+          reference.name
+        );
+        const member = resolved && byKey.get(this.key(resolved));
+        if (member && member !== component) {
+          references.add(member);
+        }
+      }
+      graph.set(component, Array.from(references));
+    }
+
+    return graph;
+  }
+
+  /**
+   * Read the component's source files with the scanner for their type
+   */
+  private scanFiles(
+    component: ComponentInfo,
+    files: string[]
+  ): SourceReference[] {
+    const references: SourceReference[] = [];
+
+    for (const file of files) {
+      let source: string;
+      try {
+        source = fs.readFileSync(file, "utf8");
+      } catch (error: any) {
+        this.outputChannel?.appendLine(
+          `  ⚠ Could not read ${file}: ${error.message}`
+        );
+        continue;
+      }
+
+      if (/\.(cls|trigger)$/i.test(file)) {
+        references.push(...ApexScanner.scan(source));
+      } else if (
+        component.type === "LightningComponentBundle" ||
+        component.type === "AuraDefinitionBundle"
+      ) {
+        references.push(...LightningScanner.scan(source, file));
+      } else if (MetadataXmlScanner.supports(component.type)) {
+        references.push(
+          ...MetadataXmlScanner.scan(source, component.type, component.name)
+        );
+      }
+    }
+
+    return references;
+  }
+
+  private key(component: ComponentInfo): string {
+    return `${component.type}:${component.name}`.toLowerCase();
+  }
+}
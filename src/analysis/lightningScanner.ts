@@ -0,0 +1,114 @@
+import { SourceReference } from "../types";
+
+/**
+ * Reads the files of LWC and Aura bundles and lists the components they
+ * reference: child components, Apex controllers, schema objects and fields,
+ * labels, static resources and message channels. Uses no VS Code APIs.
+ */
+export class LightningScanner {
+  /**
+   * Scan one bundle file; the file name decides how it is read
+   */
+  public static scan(source: string, fileName: string): SourceReference[] {
+    const references = new Map<string, SourceReference>();
+    const add = (type: string, name: string, reason: string) => {
+      const key = `${type}:${name}`.toLowerCase();
+      if (!references.has(key)) {
+        references.set(key, { type, name, reason });
+      }
+    };
+
+    if (/\.(js|ts)$/i.test(fileName)) {
+      this.scanModuleImports(source, add);
+    }
+
+    // LWC templates: <c-child-component> is the bundle childComponent
+    if (/\.html$/i.test(fileName)) {
+      for (const match of source.matchAll(/<c-([a-z][\w-]*)/gi)) {
+        add(
+          "LightningComponentBundle",
+          this.kebabToCamel(match[1]),
+          "child component"
+        );
+      }
+    }
+
+    // Aura markup: <c:childCmp>, extends="c:base"; only markup, as "{c:1}" is
+    // an object literal in JavaScript
+    if (/\.(cmp|app|evt|intf|design)$/i.test(fileName)) {
+      for (const match of source.matchAll(/\bc:(\w+)/g)) {
+        // Aura markup can embed LWC bundles as well
+        add("AuraDefinitionBundle", match[1], "Aura component reference");
+        add("LightningComponentBundle", match[1], "Aura component reference");
+      }
+    }
+
+    // Aura markup and controllers
+    if (/\.(cmp|app|evt|intf|design|js)$/i.test(fileName)) {
+      for (const match of source.matchAll(
+        /\bcontroller\s*=\s*"(?:\w+\.)?(\w+)"/gi
+      )) {
+        add("ApexClass", match[1], "Apex controller");
+      }
+      for (const match of source.matchAll(/\$Label\.c\.(\w+)/g)) {
+        add("CustomLabel", match[1], "custom label");
+      }
+      for (const match of source.matchAll(/\$Resource\.(\w+)/g)) {
+        add("StaticResource", match[1], "static resource");
+      }
+    }
+
+    return Array.from(references.values());
+  }
+
+  /**
+   * import ... from 'c/...' and '@salesforce/...' modules
+   */
+  private static scanModuleImports(
+    source: string,
+    add: (type: string, name: string, reason: string) => void
+  ): void {
+    const modules = Array.from(
+      source.matchAll(/\b(?:from|import)\s*\(?\s*['"`]([^'"`]+)['"`]/g)
+    ).map((match) => match[1]);
+
+    for (const module of modules) {
+      let match: RegExpMatchArray | null;
+
+      if ((match = module.match(/^c\/(\w+)$/))) {
+        add("LightningComponentBundle", match[1], "module import");
+      } else if (
+        (match = module.match(/^@salesforce\/apex(?:Continuation)?\/(\w+)\./))
+      ) {
+        add("ApexClass", match[1], "Apex method import");
+      } else if (
+        (match = module.match(/^@salesforce\/schema\/(\w+)(?:\.(\w+))?/))
+      ) {
+        if (match[2]) {
+          // Relationship paths start with the lookup field: Invoice__c.Account__r.Name
+          add(
+            "CustomField",
+            `${match[1]}.${match[2].replace(/__r$/i, "__c")}`,
+            "schema import"
+          );
+        } else {
+          add("CustomObject", match[1], "schema import");
+        }
+      } else if (
+        (match = module.match(/^@salesforce\/label\/(?:c\.)?(\w+)$/))
+      ) {
+        add("CustomLabel", match[1], "label import");
+      } else if ((match = module.match(/^@salesforce\/resourceUrl\/(\w+)$/))) {
+        add("StaticResource", match[1], "static resource import");
+      } else if (
+        (match = module.match(/^@salesforce\/messageChannel\/(\w+?)(?:__c)?$/))
+      ) {
+        add("LightningMessageChannel", match[1], "message channel import");
+      }
+    }
+  }
+
+  private static kebabToCamel(name: string): string {
+    return name.replace(/-([a-z0-9])/g, (_, letter) => letter.toUpperCase());
+  }
+}
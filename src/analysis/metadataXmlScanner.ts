@@ -0,0 +1,188 @@
+import { SourceReference } from "../types";
+
+// Objects, settings and metadata types the workspace can define
+const CUSTOM_OBJECT_SUFFIX = /__(c|mdt|e|b|x)$/i;
+
+// Flow elements that work on records of an <object>
+const FLOW_RECORD_ELEMENTS = [
+  "start",
+  "recordLookups",
+  "recordCreates",
+  "recordUpdates",
+  "recordDeletes",
+  "dynamicChoiceSets",
+];
+
+/**
+ * Reads declarative metadata XML and lists the components it references:
+ * Apex actions, objects and fields of flows; classes, objects, fields, tabs,
+ * apps and pages granted by permission sets and profiles; fields, buttons
+ * and Visualforce pages placed on layouts. Uses no VS Code APIs.
+ */
+export class MetadataXmlScanner {
+  /**
+   * Types whose XML can be scanned
+   */
+  public static supports(type: string): boolean {
+    return ["Flow", "PermissionSet", "Profile", "Layout"].includes(type);
+  }
+
+  /**
+   * Scan the XML of a component; the name gives layouts their object
+   */
+  public static scan(
+    source: string,
+    type: string,
+    name: string
+  ): SourceReference[] {
+    const references = new Map<string, SourceReference>();
+    const add = (refType: string, refName: string, reason: string) => {
+      const key = `${refType}:${refName}`.toLowerCase();
+      if (!references.has(key)) {
+        references.set(key, { type: refType, name: refName, reason });
+      }
+    };
+
+    switch (type) {
+      case "Flow":
+        this.scanFlow(source, add);
+        break;
+      case "PermissionSet":
+      case "Profile":
+        this.scanPermissions(source, add);
+        break;
+      case "Layout":
+        // Layout names are "Object-Layout Name"
+        this.scanLayout(source, name.split("-")[0], add);
+        break;
+    }
+
+    return Array.from(references.values());
+  }
+
+  private static scanFlow(
+    source: string,
+    add: (type: string, name: string, reason: string) => void
+  ): void {
+    for (const action of this.blocks(source, "actionCalls")) {
+      if (/^apex$/i.test(this.values(action, "actionType")[0] || "")) {
+        this.values(action, "actionName").forEach((actionName) =>
+          add("ApexClass", actionName, "flow Apex action")
+        );
+      }
+    }
+
+    // Apex-defined variables
+    this.values(source, "apexClass").forEach((className) =>
+      add("ApexClass", className, "flow Apex-defined variable")
+    );
+    this.values(source, "flowName").forEach((flowName) =>
+      add("Flow", flowName, "subflow")
+    );
+
+    for (const elementName of FLOW_RECORD_ELEMENTS) {
+      for (const element of this.blocks(source, elementName)) {
+        const objectName = this.values(element, "object")[0];
+        if (!objectName) {
+          continue;
+        }
+        if (CUSTOM_OBJECT_SUFFIX.test(objectName)) {
+          add("CustomObject", objectName, "flow object");
+        }
+        [
+          ...this.values(element, "field"),
+          ...this.values(element, "queriedFields"),
+        ]
+          .filter((field) => /__c$/i.test(field))
+          .forEach((field) =>
+            add("CustomField", `${objectName}.${field}`, "flow field")
+          );
+      }
+    }
+
+    // Formulas and text templates: {!$Label.My_Label}
+    for (const match of source.matchAll(/\$Label\.(\w+)/g)) {
+      add("CustomLabel", match[1], "custom label");
+    }
+  }
+
+  private static scanPermissions(
+    source: string,
+    add: (type: string, name: string, reason: string) => void
+  ): void {
+    const grants: [string, string, string][] = [
+      // [block, value tag, referenced type]
+      ["classAccesses", "apexClass", "ApexClass"],
+      ["pageAccesses", "apexPage", "ApexPage"],
+      ["applicationVisibilities", "application", "CustomApplication"],
+      ["tabSettings", "tab", "CustomTab"],
+      ["tabVisibilities", "tab", "CustomTab"],
+      ["customPermissions", "name", "CustomPermission"],
+      ["recordTypeVisibilities", "recordType", "RecordType"],
+      ["layoutAssignments", "layout", "Layout"],
+    ];
+    for (const [block, tag, type] of grants) {
+      for (const grant of this.blocks(source, block)) {
+        this.values(grant, tag).forEach((name) =>
+          add(type, name, `${block} grant`)
+        );
+      }
+    }
+
+    for (const grant of this.blocks(source, "objectPermissions")) {
+      this.values(grant, "object")
+        .filter((objectName) => CUSTOM_OBJECT_SUFFIX.test(objectName))
+        .forEach((objectName) =>
+          add("CustomObject", objectName, "objectPermissions grant")
+        );
+    }
+    for (const grant of this.blocks(source, "fieldPermissions")) {
+      this.values(grant, "field")
+        .filter((field) => /__c$/i.test(field))
+        .forEach((field) =>
+          add("CustomField", field, "fieldPermissions grant")
+        );
+    }
+  }
+
+  private static scanLayout(
+    source: string,
+    objectName: string,
+    add: (type: string, name: string, reason: string) => void
+  ): void {
+    for (const item of this.blocks(source, "layoutItems")) {
+      this.values(item, "field")
+        .filter((field) => /__c$/i.test(field))
+        .forEach((field) =>
+          add("CustomField", `${objectName}.${field}`, "layout field")
+        );
+      this.values(item, "page").forEach((page) =>
+        add("ApexPage", page, "layout Visualforce page")
+      );
+    }
+
+    this.values(source, "customButtons").forEach((button) =>
+      add("WebLink", `${objectName}.${button}`, "layout button")
+    );
+  }
+
+  /**
+   * Contents of every <tag>...</tag> element
+   */
+  private static blocks(source: string, tag: string): string[] {
+    return Array.from(
+      source.matchAll(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, "g"))
+    ).map((match) => match[1]);
+  }
+
+  /**
+   * Text of every <tag>value</tag> element
+   */
+  private static values(source: string, tag: string): string[] {
+    return Array.from(
+      source.matchAll(new RegExp(`<${tag}>\\s*([^<]*?)\\s*</${tag}>`, "g"))
+    )
+      .map((match) => match[1])
+      .filter((value) => value.length > 0);
+  }
+}
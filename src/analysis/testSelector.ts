@@ -0,0 +1,78 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import { ComponentInfo } from "../types";
+import { ComponentLocator } from "../utils/componentLocator";
+import { ApexScanner } from "./apexScanner";
+
+/**
+ * Picks the workspace test classes relevant to a deploy: @isTest classes
+ * that reference a deployed class, or the SObject a deployed trigger fires on
+ */
+export class TestSelector {
+  private componentLocator: ComponentLocator;
+  private outputChannel?: vscode.OutputChannel;
+
+  constructor(
+    componentLocator: ComponentLocator,
+    outputChannel?: vscode.OutputChannel
+  ) {
+    this.componentLocator = componentLocator;
+    this.outputChannel = outputChannel;
+  }
+
+  /**
+   * Names of the test classes to run for the components, sorted
+   * Deployed test classes are always included
+   */
+  public async selectTests(components: ComponentInfo[]): Promise<string[]> {
+    // Lower-case names a test has to reference to be selected
+    const targets = new Set<string>();
+    for (const component of components) {
+      if (component.type === "ApexClass") {
+        targets.add(component.name.toLowerCase());
+      } else if (component.type === "ApexTrigger") {
+        const files = await this.componentLocator.getComponentFiles(component);
+        const trigger = files.find((file) => /\.trigger$/i.test(file));
+        const source = trigger && this.read(trigger);
+        const triggerObject = source ? ApexScanner.triggerObject(source) : null;
+        if (triggerObject) {
+          targets.add(triggerObject.toLowerCase());
+        }
+      }
+    }
+    if (targets.size === 0) {
+      return [];
+    }
+
+    const tests = new Set<string>();
+    for (const apexClass of await this.componentLocator.listComponents(
+      "ApexClass"
+    )) {
+      const source = apexClass.filePath && this.read(apexClass.filePath);
+      if (!source || !ApexScanner.isTestClass(source)) {
+        continue;
+      }
+      if (
+        targets.has(apexClass.name.toLowerCase()) ||
+        ApexScanner.scan(source).some((reference) =>
+          targets.has(reference.name.toLowerCase())
+        )
+      ) {
+        tests.add(apexClass.name);
+      }
+    }
+
+    return Array.from(tests).sort();
+  }
+
+  private read(filePath: string): string | null {
+    try {
+      return fs.readFileSync(filePath, "utf8");
+    } catch (error: any) {
+      this.outputChannel?.appendLine(
+        `  ⚠ Could not read ${filePath}: ${error.message}`
+      );
+      return null;
+    }
+  }
+}
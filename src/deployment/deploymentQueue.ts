@@ -0,0 +1,258 @@
+import * as vscode from "vscode";
+import {
+  ComponentInfo,
+  DeployOptions,
+  DeploymentOutcome,
+  DeploymentQueueItem,
+  ValidationRecord,
+} from "../types";
+import { StateManager } from "../utils/stateManager";
+import { OAuthHandler } from "../utils/oauthHandler";
+import { DeploymentOrchestrator } from "./orchestrator";
+
+/**
+ * Runs deploy, validation and quick deploy requests as jobs: one job per
+ * target org at a time, the rest waiting in the StateManager queue, shown in the status bar
+ */
+export class DeploymentQueue implements vscode.Disposable {
+  private stateManager: StateManager;
+  private orchestrator: DeploymentOrchestrator;
+  private oauthHandler: OAuthHandler;
+  private outputChannel: vscode.OutputChannel;
+  private statusBarItem: vscode.StatusBarItem;
+  // Settles the promise enqueue returned for each job
+  private settlers: Map<
+    DeploymentQueueItem,
+    (outcome: DeploymentOutcome) => void
+  > = new Map();
+
+  constructor(
+    stateManager: StateManager,
+    orchestrator: DeploymentOrchestrator,
+    oauthHandler: OAuthHandler,
+    outputChannel: vscode.OutputChannel
+  ) {
+    this.stateManager = stateManager;
+    this.orchestrator = orchestrator;
+    this.oauthHandler = oauthHandler;
+    this.outputChannel = outputChannel;
+
+    this.statusBarItem = vscode.window.createStatusBarItem(
+      vscode.StatusBarAlignment.Left
+    );
+    this.statusBarItem.command = "wormhole.showDeploymentQueue";
+    this.stateManager.onQueueChanged(() => this.updateStatusBar());
+  }
+
+  /**
+   * Queue a deployment and resolve with its outcome once it has run
+   * The target org is fixed now, so changing the default org later doesn't move the job
+   */
+  public async enqueue(
+    components: ComponentInfo[],
+    options: DeployOptions = {}
+  ): Promise<DeploymentOutcome> {
+    const targetOrg = await this.resolveOrg(options.targetOrg);
+    return this.add(
+      this.stateManager.queueDeployment(components, { ...options, targetOrg })
+    );
+  }
+
+  /**
+   * Queue a quick deploy of a validation and resolve with its outcome once it has run
+   */
+  public async enqueueQuickDeploy(
+    record: ValidationRecord
+  ): Promise<DeploymentOutcome> {
+    // The validated deploy id only exists in the org it was validated against
+    const targetOrg = await this.resolveOrg(record.targetOrg);
+    return this.add(
+      this.stateManager.queueDeployment(
+        record.components,
+        { targetOrg },
+        { ...record, targetOrg }
+      )
+    );
+  }
+
+  /**
+   * List the jobs and let the user move or cancel a pending one
+   */
+  public async showQueue(): Promise<void> {
+    const queue = this.stateManager.getQueue();
+    if (queue.length === 0) {
+      vscode.window.showInformationMessage("No deployments are queued.");
+      return;
+    }
+
+    const pick = await vscode.window.showQuickPick(
+      queue.map((item) => ({
+        label: `${
+          item.status === "running" ? "$(sync~spin)" : "$(clock)"
+        } ${this.describe(item)}`,
+        description: `${item.options.targetOrg || "default org"} · ${
+          item.status
+        }`,
+        detail: item.components
+          .map((component) => `${component.type}: ${component.name}`)
+          .join(", "),
+        item,
+      })),
+      {
+        placeHolder: "Deployment queue: select a pending job to move or cancel",
+      }
+    );
+    if (!pick) {
+      return;
+    }
+    if (pick.item.status === "running") {
+      vscode.window.showInformationMessage(
+        "This job is running; cancel it from its progress notification."
+      );
+      return;
+    }
+
+    const action = await vscode.window.showQuickPick(
+      ["Move Up", "Move Down", "Cancel Job"],
+      { placeHolder: this.describe(pick.item) }
+    );
+    if (action === "Move Up" || action === "Move Down") {
+      if (
+        !this.stateManager.moveQueued(pick.item, action === "Move Up" ? -1 : 1)
+      ) {
+        vscode.window.showInformationMessage(
+          `The job can't move ${action === "Move Up" ? "up" : "down"}.`
+        );
+      }
+    } else if (
+      action === "Cancel Job" &&
+      this.stateManager.cancelQueued(pick.item)
+    ) {
+      this.outputChannel.appendLine(
+        `⏹ Removed ${this.describe(pick.item)} from the queue`
+      );
+      this.settle(pick.item, {
+        status: "cancelled",
+        dryRun: !!pick.item.options.dryRun,
+        components: pick.item.components,
+        unresolvable: [],
+        attempts: [],
+        failures: [],
+      });
+    }
+  }
+
+  public dispose(): void {
+    this.statusBarItem.dispose();
+  }
+
+  /**
+   * Report the jobs ahead of a queued one and resolve with its outcome
+   */
+  private add(item: DeploymentQueueItem): Promise<DeploymentOutcome> {
+    const targetOrg = item.options.targetOrg;
+    const ahead = this.stateManager
+      .getQueue()
+      .filter(
+        (queued) => queued !== item && queued.options.targetOrg === targetOrg
+      ).length;
+    if (ahead > 0) {
+      this.outputChannel.appendLine(
+        `⏳ Queued ${this.describe(item)} behind ${ahead} job(s) for ${
+          targetOrg || "the default org"
+        }`
+      );
+      vscode.window.showInformationMessage(
+        `SF Wormhole: queued behind ${ahead} job(s) for ${
+          targetOrg || "the default org"
+        }. Run "Show Deployment Queue" to reorder or cancel.`
+      );
+    }
+
+    const outcome = new Promise<DeploymentOutcome>((resolve) =>
+      this.settlers.set(item, resolve)
+    );
+    this.startJobs();
+    return outcome;
+  }
+
+  /**
+   * The org's username, so an alias and the username it stands for are one org;
+   * the alias itself when it can't be resolved
+   */
+  private async resolveOrg(orgAlias?: string): Promise<string | undefined> {
+    return (await this.oauthHandler.getOrgUsername(orgAlias)) || orgAlias;
+  }
+
+  /**
+   * Start every job whose org is free; each finished job starts the next
+   */
+  private startJobs(): void {
+    let item: DeploymentQueueItem | undefined;
+    while ((item = this.stateManager.getNextQueuedItem())) {
+      this.runJob(item);
+    }
+  }
+
+  private async runJob(item: DeploymentQueueItem): Promise<void> {
+    let outcome: DeploymentOutcome;
+    try {
+      // The job id keeps the job's manifests and responses apart from other running jobs
+      outcome = item.validation
+        ? await this.orchestrator.quickDeploy(item.validation, item.id)
+        : await this.orchestrator.deployComponents(item.components, {
+            ...item.options,
+            jobId: item.id,
+          });
+    } catch (error: any) {
+      this.outputChannel.appendLine(
+        `❌ ${this.describe(item)} failed: ${error.message}`
+      );
+      vscode.window.showErrorMessage(
+        `Deployment failed: ${error.message}. Check output for details.`
+      );
+      outcome = {
+        status: "unresolved",
+        dryRun: !!item.options.dryRun,
+        components: item.components,
+        unresolvable: [],
+        attempts: [],
+        failures: [],
+      };
+    }
+
+    this.stateManager.completeDeployment(item);
+    this.settle(item, outcome);
+    this.startJobs();
+  }
+
+  private settle(item: DeploymentQueueItem, outcome: DeploymentOutcome): void {
+    this.settlers.get(item)?.(outcome);
+    this.settlers.delete(item);
+  }
+
+  private updateStatusBar(): void {
+    const queue = this.stateManager.getQueue();
+    const running = queue.filter((item) => item.status === "running").length;
+    const pending = queue.length - running;
+    if (queue.length === 0) {
+      this.statusBarItem.hide();
+      return;
+    }
+
+    this.statusBarItem.text = `$(cloud-upload) Wormhole: ${running} running${
+      pending > 0 ? `, ${pending} queued` : ""
+    }`;
+    this.statusBarItem.tooltip = "Show the deployment queue";
+    this.statusBarItem.show();
+  }
+
+  private describe(item: DeploymentQueueItem): string {
+    const kind = item.validation
+      ? "Quick Deploy"
+      : item.options.dryRun
+      ? "Validate"
+      : "Deploy";
+    return `#${item.id} ${kind} (${item.components.length} component(s))`;
+  }
+}
@@ -1,10 +1,70 @@
 import * as vscode from "vscode";
-import { ComponentInfo, DeploymentResult } from "../types";
+import {
+  AnalyzedDependency,
+  ClassifiedFailure,
+  ComponentInfo,
+  DeployOptions,
+  DeploymentOutcome,
+  DeploymentResult,
+  DeploymentStatus,
+  FailedWave,
+  FailureCategory,
+  OrgInventoryMode,
+  TestLevel,
+  ValidationRecord,
+} from "../types";
 import { StateManager } from "../utils/stateManager";
 import { CLIExecutor } from "../utils/cliExecutor";
 import { ErrorParser } from "../utils/errorParser";
 import { ComponentLocator } from "../utils/componentLocator";
 import { OAuthHandler } from "../utils/oauthHandler";
+import { OrgInventory } from "../utils/orgInventory";
+import { PackageXmlGenerator } from "../utils/packageXmlGenerator";
+import { PromptQueue } from "../utils/promptQueue";
+import { DependencyAnalyzer } from "../analysis/dependencyAnalyzer";
+import { TestSelector } from "../analysis/testSelector";
+import { ResolutionPlan } from "./resolutionPlan";
+import { PlanPreview } from "./planPreview";
+import { WavePlanner } from "./wavePlanner";
+
+// Failure categories that adding dependencies or retrying cannot fix
+const STOP_CATEGORIES: FailureCategory[] = [
+  "compileError",
+  "testFailure",
+  "insufficientCoverage",
+  "permission",
+  "conflict",
+  "orgLimit",
+  "cliOrAuth",
+];
+
+// Stop categories a missing dependency never causes; the others are only
+// final once no missing dependency is left to add
+const UNRELATED_STOP_CATEGORIES: FailureCategory[] = [
+  "conflict",
+  "orgLimit",
+  "cliOrAuth",
+];
+
+// Lock contention is transient, so the same deploy is retried with a growing delay
+const MAX_LOCK_RETRIES = 3;
+const LOCK_RETRY_DELAY_MS = 5000;
+
+// Deploy attempts per deployment unless wormhole.maxDeployAttempts says otherwise
+const DEFAULT_MAX_ATTEMPTS = 6;
+
+type DeployProgress = vscode.Progress<{ message?: string }>;
+
+const TEST_LEVELS: { level: TestLevel; detail: string }[] = [
+  { level: "NoTestRun", detail: "Run no tests (not allowed in production)" },
+  {
+    level: "RunSpecifiedTests",
+    detail:
+      "Run the workspace tests that reference the deployed classes and triggers",
+  },
+  { level: "RunLocalTests", detail: "Run every test outside managed packages" },
+  { level: "RunAllTestsInOrg", detail: "Run every test in the org" },
+];
 
 export class DeploymentOrchestrator {
   private stateManager: StateManager;
@@ -12,10 +72,11 @@ export class DeploymentOrchestrator {
   private errorParser: ErrorParser;
   private componentLocator: ComponentLocator;
   private oauthHandler: OAuthHandler;
+  private dependencyAnalyzer: DependencyAnalyzer;
+  private orgInventory: OrgInventory;
+  private testSelector: TestSelector;
+  private planPreview: PlanPreview;
   private outputChannel: vscode.OutputChannel;
-  private attemptedDeployments: Set<string> = new Set(); // Track attempted component combinations
-  private attemptedDeploymentDetails: Map<string, ComponentInfo[]> = new Map(); // Store component details for each attempt
-  private deploymentAttemptCounter: number = 0; // Track attempt numbers for file naming
 
   constructor(
     stateManager: StateManager,
@@ -23,6 +84,9 @@ export class DeploymentOrchestrator {
     errorParser: ErrorParser,
     componentLocator: ComponentLocator,
     oauthHandler: OAuthHandler,
+    dependencyAnalyzer: DependencyAnalyzer,
+    orgInventory: OrgInventory,
+    testSelector: TestSelector,
     outputChannel: vscode.OutputChannel
   ) {
     this.stateManager = stateManager;
@@ -30,598 +94,1067 @@ export class DeploymentOrchestrator {
     this.errorParser = errorParser;
     this.componentLocator = componentLocator;
     this.oauthHandler = oauthHandler;
+    this.dependencyAnalyzer = dependencyAnalyzer;
+    this.orgInventory = orgInventory;
+    this.testSelector = testSelector;
     this.outputChannel = outputChannel;
+    this.planPreview = new PlanPreview(componentLocator, outputChannel);
   }
 
   /**
    * Main deployment flow
+   * Deploys, adds the dependencies the failure reports and deploys again,
+   * until it succeeds, stops making progress or runs out of attempts
+   * With dryRun every attempt is a validation and nothing changes in the org
+   * Without a test level, wormhole.testLevel decides it, asking when set to "ask"
+   * Runs under a cancellable progress notification
    */
   public async deployComponents(
     components: ComponentInfo[],
-    recursionDepth: number = 0
-  ): Promise<void> {
-    // Prevent infinite recursion (max 5 levels)
-    if (recursionDepth > 5) {
-      this.outputChannel.appendLine("");
-      this.outputChannel.appendLine(
-        "❌ Maximum recursion depth reached. Stopping to prevent infinite loop."
+    options: DeployOptions = {}
+  ): Promise<DeploymentOutcome> {
+    return vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: options.dryRun ? "SF Wormhole Validate" : "SF Wormhole Deploy",
+        cancellable: true,
+      },
+      (progress, token) =>
+        this.runDeployment(components, options, progress, token)
+    );
+  }
+
+  private async runDeployment(
+    components: ComponentInfo[],
+    options: DeployOptions,
+    progress: DeployProgress,
+    token: vscode.CancellationToken
+  ): Promise<DeploymentOutcome> {
+    this.outputChannel.show();
+    this.outputChannel.appendLine(
+      options.dryRun
+        ? "=== Starting SF Wormhole Validate (dry run) ==="
+        : "=== Starting SF Wormhole Deploy ==="
+    );
+    this.outputChannel.appendLine("");
+
+    const plan = new ResolutionPlan(components);
+
+    // Step 1: Ensure authentication
+    if (!(await this.ensureAuthenticated())) {
+      return this.createOutcome(plan, options, "notAuthenticated", []);
+    }
+    const orgAlias =
+      options.targetOrg || (await this.oauthHandler.getDefaultOrgAlias());
+
+    const withTestLevel = await this.chooseTestLevel(options);
+    if (!withTestLevel) {
+      this.outputChannel.appendLine("Cancelled: no test level chosen.");
+      return this.createOutcome(plan, options, "cancelled", []);
+    }
+    options = withTestLevel;
+
+    // Step 2: Add what the source references before the first deploy, instead
+    // of discovering it one failed deploy at a time
+    if (
+      vscode.workspace
+        .getConfiguration("wormhole")
+        .get<boolean>("preflightAnalysis", true)
+    ) {
+      progress.report({
+        message: `Resolving dependencies of ${components.length} component(s)`,
+      });
+      const dependencies = await this.addPreflightDependencies(
+        components,
+        orgAlias
       );
-      vscode.window.showErrorMessage(
-        "Deployment failed: Maximum recursion depth reached. Check output for details."
+      dependencies.forEach((dependency) =>
+        plan.resolve(
+          dependency.component,
+          `${dependency.reason} in ${dependency.referencedBy.name}`,
+          dependency.referrers
+        )
       );
-      return;
     }
 
-    // Create a signature for this component combination
-    const componentSignature = this.getComponentSignature(components);
+    const maxAttempts = Math.max(
+      1,
+      vscode.workspace
+        .getConfiguration("wormhole")
+        .get<number>("maxDeployAttempts", DEFAULT_MAX_ATTEMPTS)
+    );
 
-    // Check if we've already tried deploying this exact combination
-    if (this.attemptedDeployments.has(componentSignature)) {
-      const previousAttempt =
-        this.attemptedDeploymentDetails.get(componentSignature);
-      this.outputChannel.appendLine("");
+    if (
+      options.dryRun &&
+      vscode.workspace
+        .getConfiguration("wormhole")
+        .get<boolean>("deployInWaves", false)
+    ) {
+      // A validated wave never reaches the org, so later waves would miss it
       this.outputChannel.appendLine(
-        "⚠️  LOOP DETECTED: Already attempted deploying these exact components together."
+        "Validations deploy in one batch; wormhole.deployInWaves applies to deployments only."
       );
       this.outputChannel.appendLine("");
-      if (previousAttempt) {
+    }
+
+    // Step 3: Deploy, resolve reported dependencies, repeat
+    let failures: ClassifiedFailure[] = [];
+    while (true) {
+      if (token.isCancellationRequested) {
+        return this.cancelDeployment(plan, options, failures);
+      }
+
+      if (plan.getAttempts().length >= maxAttempts) {
+        this.outputChannel.appendLine("");
         this.outputChannel.appendLine(
-          "   Last attempt included these components:"
+          `❌ Stopping after ${maxAttempts} deploy attempt(s) (wormhole.maxDeployAttempts).`
         );
-        previousAttempt.forEach((comp, index) => {
-          this.outputChannel.appendLine(
-            `     ${index + 1}. ${comp.type}: ${comp.name}`
-          );
+        vscode.window.showErrorMessage(
+          `Deployment failed: still failing after ${maxAttempts} attempts. Check output for details.`
+        );
+        return this.createOutcome(plan, options, "budgetExhausted", failures);
+      }
+
+      // A set that already failed would fail the same way; don't ask to review it
+      if (plan.hasAttemptedCurrentSet()) {
+        this.logLoopDetected(plan, failures);
+        return this.createOutcome(plan, options, "noProgress", failures);
+      }
+
+      // Step 3a: Let the user review what is about to be deployed
+      if (
+        !(await this.planPreview.review(
+          plan,
+          plan.getAttempts().length + 1,
+          !!options.dryRun
+        ))
+      ) {
+        this.outputChannel.appendLine("Cancelled at the plan preview.");
+        return this.createOutcome(plan, options, "cancelled", failures);
+      }
+      // Exclusions at the preview can lead back to a set that already failed
+      if (plan.hasAttemptedCurrentSet()) {
+        this.logLoopDetected(plan, failures);
+        return this.createOutcome(plan, options, "noProgress", failures);
+      }
+
+      const { result, failedWave } = await this.runAttempt(
+        plan,
+        orgAlias,
+        options,
+        progress,
+        token
+      );
+      if (result.cancelled) {
+        return this.cancelDeployment(plan, options, failures);
+      }
+      failures = result.success
+        ? []
+        : this.errorParser.classifyFailures(result, plan.getComponents());
+      const missing = result.success
+        ? []
+        : this.errorParser.parseMissingDependencies(result);
+      plan.recordAttempt({
+        number: plan.getAttempts().length + 1,
+        components: plan.getComponents(),
+        success: result.success,
+        deployId: result.details?.deployId,
+        categories: Array.from(
+          new Set(failures.map((failure) => failure.category))
+        ),
+        missing,
+        failedWave,
+      });
+      if (result.success && options.dryRun) {
+        const deployId = result.details?.deployId;
+        this.outputChannel.appendLine(
+          `✓ All components validated successfully!${
+            deployId ? ` Deploy ID: ${deployId}` : ""
+          }`
+        );
+        vscode.window.showInformationMessage(
+          deployId
+            ? `SF Wormhole Validate succeeded (${deployId}). Run "Quick Deploy Validated Components" to deploy it.`
+            : "SF Wormhole Validate succeeded."
+        );
+        return this.createOutcome(plan, options, "succeeded", []);
+      }
+      if (result.success) {
+        plan.getComponents().forEach((comp) => {
+          this.stateManager.markDeployed(comp);
         });
+        this.outputChannel.appendLine(
+          "✓ All components deployed successfully!"
+        );
+        vscode.window.showInformationMessage(
+          "SF Wormhole Deploy completed successfully!"
+        );
+        return this.createOutcome(plan, options, "succeeded", []);
       }
-      this.outputChannel.appendLine("");
+
+      // Stop on errors dependencies cannot fix (conflicts, org limits, CLI)
+      if (
+        this.stopOnBlockingFailures(result, failures, UNRELATED_STOP_CATEGORIES)
+      ) {
+        return this.createOutcome(plan, options, "blocked", failures);
+      }
+
+      // Compile errors, test failures, ... often come from the missing
+      // dependencies, so they only stop the deployment once none are left
+      const newDependencies = plan.addPending(missing);
+      if (newDependencies.length === 0) {
+        if (this.stopOnBlockingFailures(result, failures)) {
+          return this.createOutcome(plan, options, "blocked", failures);
+        }
+        this.outputChannel.appendLine("");
+        this.outputChannel.appendLine(
+          "⚠️  Deployment failed and no new dependencies were detected."
+        );
+        this.logFailureSummary(failures);
+        vscode.window.showErrorMessage(
+          "Deployment failed. Check output for details."
+        );
+        return this.createOutcome(plan, options, "unresolved", failures);
+      }
+
       this.outputChannel.appendLine(
-        "   Current attempt includes these components:"
+        `Found ${newDependencies.length} missing dependency/dependencies:`
       );
-      components.forEach((comp, index) => {
+      newDependencies.forEach((dep) => {
+        this.outputChannel.appendLine(`  - ${dep.type}: ${dep.name}`);
+      });
+      const deferred = failures.filter((failure) =>
+        STOP_CATEGORIES.includes(failure.category)
+      ).length;
+      if (deferred > 0) {
         this.outputChannel.appendLine(
-          `     ${index + 1}. ${comp.type}: ${comp.name}`
+          `  ${deferred} other error(s) may come from these; retrying with them first.`
         );
-      });
+      }
       this.outputChannel.appendLine("");
+
+      // Step 4: Search repository for dependency files and add them to the plan
+      progress.report({
+        message: `Locating ${newDependencies.length} missing dependency/dependencies`,
+      });
+      if ((await this.resolvePending(plan)) === 0) {
+        this.outputChannel.appendLine("");
+        this.outputChannel.appendLine(
+          "⚠️  None of the missing dependencies could be found in the workspace."
+        );
+        if (this.stopOnBlockingFailures(result, failures)) {
+          return this.createOutcome(plan, options, "blocked", failures);
+        }
+        this.logFailureSummary(failures);
+        vscode.window.showErrorMessage(
+          "Deployment failed: missing dependencies not found in the workspace. Check output for details."
+        );
+        return this.createOutcome(plan, options, "unresolved", failures);
+      }
+    }
+  }
+
+  /**
+   * Deploy a successful validation without rerunning it
+   * The queue job running it names the saved response
+   */
+  public async quickDeploy(
+    record: ValidationRecord,
+    jobId?: number
+  ): Promise<DeploymentOutcome> {
+    const outcome = (
+      status: DeploymentStatus,
+      failures: ClassifiedFailure[] = [],
+      deployId?: string
+    ): DeploymentOutcome => ({
+      status,
+      dryRun: false,
+      deployId,
+      components: record.components,
+      unresolvable: [],
+      attempts: [],
+      failures,
+    });
+
+    this.outputChannel.show();
+    this.outputChannel.appendLine("=== Starting SF Wormhole Quick Deploy ===");
+    this.outputChannel.appendLine(
+      `Validation ${record.deployId} from ${record.validatedAt} (${record.components.length} component(s))`
+    );
+    this.outputChannel.appendLine(`Manifest: ${record.manifestPath}`);
+    this.outputChannel.appendLine("");
+
+    if (!(await this.ensureAuthenticated())) {
+      return outcome("notAuthenticated");
+    }
+    // The validated deploy id only exists in the org it was validated against
+    const orgAlias =
+      record.targetOrg || (await this.oauthHandler.getDefaultOrgAlias());
+
+    const result = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: "SF Wormhole Quick Deploy",
+        cancellable: true,
+      },
+      (progress, token) => {
+        progress.report({
+          message: `Deploying validation ${record.deployId} (${record.components.length} component(s))`,
+        });
+        return this.cliExecutor.quickDeploy(
+          record.deployId,
+          orgAlias,
+          undefined,
+          token,
+          jobId
+        );
+      }
+    );
+
+    if (result.cancelled) {
       this.outputChannel.appendLine(
-        "   No new dependencies found. Stopping to prevent infinite loop."
+        `⏹ Quick deploy of ${record.deployId} cancelled.`
+      );
+      vscode.window.showWarningMessage("SF Wormhole Quick Deploy cancelled.");
+      return outcome("cancelled");
+    }
+    if (!result.success) {
+      const failures = this.errorParser.classifyFailures(
+        result,
+        record.components
       );
+      this.logFailureSummary(failures);
       vscode.window.showErrorMessage(
-        "Deployment failed: No new dependencies found. The same error persists."
+        `Quick deploy of ${record.deployId} failed. Check output for details.`
       );
-      return;
+      return outcome("blocked", failures, result.details?.deployId);
     }
 
-    // Mark this combination as attempted and store component details
-    this.attemptedDeployments.add(componentSignature);
-    this.attemptedDeploymentDetails.set(componentSignature, [...components]);
+    PackageXmlGenerator.saveValidationRecord({
+      ...record,
+      quickDeployId: result.details?.deployId,
+      quickDeployedAt: new Date().toISOString(),
+    });
+    record.components.forEach((comp) => this.stateManager.markDeployed(comp));
+    this.orgInventory.clear(orgAlias);
 
-    this.outputChannel.show();
-    if (recursionDepth === 0) {
-      this.outputChannel.appendLine("=== Starting SF Wormhole Deploy ===");
+    this.outputChannel.appendLine(
+      `✓ Quick deploy of validation ${record.deployId} succeeded!`
+    );
+    vscode.window.showInformationMessage(
+      "SF Wormhole Quick Deploy completed successfully!"
+    );
+    return outcome("succeeded", [], result.details?.deployId);
+  }
+
+  /**
+   * Authenticate when no org is connected; false if the user declines or it fails
+   */
+  private async ensureAuthenticated(): Promise<boolean> {
+    if (await this.oauthHandler.isAuthenticated()) {
+      return true;
+    }
+
+    const authenticate = await vscode.window.showWarningMessage(
+      "Not authenticated to Salesforce. Would you like to authenticate now?",
+      "Yes",
+      "Cancel"
+    );
+    if (authenticate !== "Yes") {
+      return false;
+    }
+
+    const authSuccess = await this.oauthHandler.authenticate();
+    if (!authSuccess) {
+      vscode.window.showErrorMessage(
+        "Authentication required to deploy components."
+      );
     } else {
+      // Logging in can set a new default org
+      this.orgInventory.clear();
+    }
+    return authSuccess;
+  }
+
+  /**
+   * Deploy the plan's current component set once
+   */
+  private async runAttempt(
+    plan: ResolutionPlan,
+    orgAlias: string | undefined,
+    options: DeployOptions,
+    progress: DeployProgress,
+    token: vscode.CancellationToken
+  ): Promise<{ result: DeploymentResult; failedWave?: FailedWave }> {
+    const components = plan.getComponents();
+    // Numbers the attempt's manifest and response files
+    const attemptNumber = plan.getAttempts().length + 1;
+
+    this.outputChannel.appendLine("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+    this.outputChannel.appendLine(
+      `📤 SENDING TO SALESFORCE (Attempt ${attemptNumber})`
+    );
+    this.outputChannel.appendLine("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+    this.outputChannel.appendLine(`Components to deploy: ${components.length}`);
+    this.outputChannel.appendLine("");
+    this.outputChannel.appendLine("Component List:");
+    components.forEach((comp, index) => {
       this.outputChannel.appendLine(
-        `=== Recursive Deployment Attempt ${recursionDepth} ===`
+        `  ${index + 1}. ${comp.type}: ${comp.name}`
       );
-    }
+      if (comp.filePath) {
+        this.outputChannel.appendLine(`     File: ${comp.filePath}`);
+      }
+    });
     this.outputChannel.appendLine("");
 
-    // Step 1: Ensure authentication
-    const isAuthenticated = await this.oauthHandler.isAuthenticated();
-    if (!isAuthenticated) {
-      const authenticate = await vscode.window.showWarningMessage(
-        "Not authenticated to Salesforce. Would you like to authenticate now?",
-        "Yes",
-        "Cancel"
-      );
-
-      if (authenticate === "Yes") {
-        const authSuccess = await this.oauthHandler.authenticate();
-        if (!authSuccess) {
-          vscode.window.showErrorMessage(
-            "Authentication required to deploy components."
-          );
-          return;
-        }
-      } else {
-        return;
+    if (this.deploysInWaves(options)) {
+      return this.deployInWaves(
+        plan,
+        components,
+        orgAlias,
+        attemptNumber,
+        options,
+        progress,
+        token
+      );
+    }
+
+    if (options.testLevel === "RunSpecifiedTests") {
+      // Dependencies added since the last attempt may have tests of their own
+      const withTests = await this.selectTests(components, options, orgAlias);
+      if (!withTests) {
+        return { result: this.stoppedWithoutTests() };
       }
+      options = withTests;
     }
 
-    const orgAlias = await this.oauthHandler.getDefaultOrgAlias();
+    return {
+      result: await this.deployComponentList(
+        components,
+        orgAlias,
+        attemptNumber,
+        options,
+        progress,
+        token
+      ),
+    };
+  }
+
+  /**
+   * Whether deployments go out in dependency-ordered waves (wormhole.deployInWaves)
+   * Validations never do
+   */
+  private deploysInWaves(options: DeployOptions): boolean {
+    return (
+      !options.dryRun &&
+      vscode.workspace
+        .getConfiguration("wormhole")
+        .get<boolean>("deployInWaves", false)
+    );
+  }
 
-    // Increment attempt counter for file naming
-    this.deploymentAttemptCounter++;
-    const currentAttempt = this.deploymentAttemptCounter;
+  /**
+   * Deploy the components one dependency-ordered wave at a time, skipping
+   * components earlier attempts' waves deployed, and stop at the first wave that fails
+   */
+  private async deployInWaves(
+    plan: ResolutionPlan,
+    components: ComponentInfo[],
+    orgAlias: string | undefined,
+    attemptNumber: number,
+    options: DeployOptions,
+    progress: DeployProgress,
+    token: vscode.CancellationToken
+  ): Promise<{ result: DeploymentResult; failedWave?: FailedWave }> {
+    const references = await this.dependencyAnalyzer.referencesWithin(
+      components
+    );
+    const waves = WavePlanner.plan(components, references)
+      .map((wave) => wave.filter((component) => !plan.isDeployed(component)))
+      .filter((wave) => wave.length > 0);
 
-    // Step 2: Initial deployment attempt
-    // If recursing, show detailed component list
-    if (recursionDepth > 0) {
-      this.outputChannel.appendLine("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+    this.outputChannel.appendLine(`🌊 Deploying in ${waves.length} wave(s):`);
+    waves.forEach((wave, index) => {
       this.outputChannel.appendLine(
-        "📤 SENDING TO SALESFORCE (Recursive Attempt)"
+        `  Wave ${index + 1}: ${wave
+          .map((component) => `${component.type}: ${component.name}`)
+          .join(", ")}`
       );
-      this.outputChannel.appendLine("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+    });
+    this.outputChannel.appendLine("");
+
+    let result: DeploymentResult = { success: true, output: "" };
+    for (const [index, wave] of waves.entries()) {
+      const number = index + 1;
       this.outputChannel.appendLine(
-        `Components to deploy: ${components.length}`
+        `🌊 Wave ${number}/${waves.length}: ${wave.length} component(s)`
       );
-      this.outputChannel.appendLine("");
-      this.outputChannel.appendLine("Component List:");
-      components.forEach((comp, index) => {
-        this.outputChannel.appendLine(
-          `  ${index + 1}. ${comp.type}: ${comp.name}`
-        );
-        if (comp.filePath) {
-          this.outputChannel.appendLine(`     File: ${comp.filePath}`);
-        }
+      progress.report({
+        message: `Wave ${number}/${waves.length}: ${wave.length} component(s)`,
       });
-      this.outputChannel.appendLine("");
-    } else {
-      this.outputChannel.appendLine(
-        `Deploying ${components.length} component(s)...`
+
+      let waveOptions: DeployOptions | undefined = options;
+      if (options.testLevel === "RunSpecifiedTests") {
+        // Waves without Apex need no tests; the org default runs none for them
+        waveOptions = wave.some((component) =>
+          ["ApexClass", "ApexTrigger"].includes(component.type)
+        )
+          ? await this.selectTests(wave, options, orgAlias)
+          : { ...options, testLevel: undefined, tests: undefined };
+      }
+      if (!waveOptions) {
+        return { result: this.stoppedWithoutTests() };
+      }
+
+      result = await this.deployComponentList(
+        wave,
+        orgAlias,
+        attemptNumber,
+        waveOptions,
+        progress,
+        token
       );
+      if (result.cancelled) {
+        return { result };
+      }
+      if (!result.success) {
+        this.outputChannel.appendLine("");
+        this.outputChannel.appendLine(
+          `❌ Wave ${number} of ${waves.length} failed; ${
+            waves.length - number
+          } later wave(s) were not deployed. Components of the failed wave:`
+        );
+        wave.forEach((component) => {
+          this.outputChannel.appendLine(
+            `  - ${component.type}: ${component.name}`
+          );
+        });
+        return {
+          result,
+          failedWave: { number, total: waves.length, components: wave },
+        };
+      }
+      plan.markDeployed(wave);
     }
-    const initialResult = await this.deployComponentList(
-      components,
-      orgAlias,
-      currentAttempt
+    return { result };
+  }
+
+  /**
+   * End a deployment the user cancelled; the deploy in progress was already
+   * stopped and .forceignore restored by the CLI executor
+   */
+  private cancelDeployment(
+    plan: ResolutionPlan,
+    options: DeployOptions,
+    failures: ClassifiedFailure[]
+  ): DeploymentOutcome {
+    const attempts = plan.getAttempts().length;
+    this.outputChannel.appendLine("");
+    this.outputChannel.appendLine(
+      `⏹ Cancelled after ${attempts} completed attempt(s) with ${
+        plan.getComponents().length
+      } component(s) planned.`
     );
+    vscode.window.showWarningMessage(
+      `SF Wormhole ${options.dryRun ? "Validate" : "Deploy"} cancelled.`
+    );
+    return this.createOutcome(plan, options, "cancelled", failures);
+  }
 
-    // Step 3: If error, queue the deployment
-    if (!initialResult.success) {
-      this.outputChannel.appendLine(
-        "Initial deployment failed. Queuing for retry..."
-      );
-      this.stateManager.queueDeployment(components);
-    } else {
-      this.outputChannel.appendLine("✓ Initial deployment successful!");
-      vscode.window.showInformationMessage(
-        "Deployment completed successfully!"
-      );
-      return;
+  /**
+   * Options with the test level to deploy with, or undefined when the user
+   * dismisses the test level prompt
+   */
+  private async chooseTestLevel(
+    options: DeployOptions
+  ): Promise<DeployOptions | undefined> {
+    if (options.testLevel) {
+      return options;
     }
 
-    // Step 4: Parse errors and find missing dependencies
-    let missingDependencies = this.errorParser.parseMissingDependencies(
-      initialResult.output
-    );
+    const setting = vscode.workspace
+      .getConfiguration("wormhole")
+      .get<string>("testLevel", "ask");
+    if (setting === "default") {
+      return options;
+    }
+    if (setting !== "ask") {
+      return { ...options, testLevel: setting as TestLevel };
+    }
 
-    // Filter out single-digit dependencies (likely line number parsing errors)
-    missingDependencies = missingDependencies.filter(
-      (dep) => !(/^\d+$/.test(dep.name) && dep.name.length === 1)
+    const pick = await PromptQueue.run(() =>
+      vscode.window.showQuickPick(
+        [
+          {
+            label: "Org default",
+            detail: "Let the org decide which tests run",
+            level: undefined as TestLevel | undefined,
+          },
+          ...TEST_LEVELS.map(({ level, detail }) => ({
+            label: level,
+            detail,
+            level: level as TestLevel | undefined,
+          })),
+        ],
+        {
+          placeHolder: options.dryRun
+            ? "Test level for this validation"
+            : "Test level for this deployment",
+        }
+      )
     );
+    if (!pick) {
+      return undefined;
+    }
+    return pick.level ? { ...options, testLevel: pick.level } : options;
+  }
 
-    if (missingDependencies.length === 0) {
-      this.outputChannel.appendLine("");
-      this.outputChannel.appendLine(
-        "⚠️  No missing dependencies detected in error output."
-      );
-      this.outputChannel.appendLine("");
-      this.outputChannel.appendLine("   This could mean:");
-      this.outputChannel.appendLine(
-        "   1. The deployment actually succeeded (check your org)"
+  /**
+   * Options with the tests to run for the components, or undefined to stop
+   * Tests the caller passed win; otherwise the workspace tests that reference
+   * the components, less those neither deployed nor in the org (--tests would
+   * fail the deploy on them). RunSpecifiedTests needs at least one test, so
+   * with none the user chooses between RunLocalTests and stopping
+   */
+  private async selectTests(
+    components: ComponentInfo[],
+    options: DeployOptions,
+    orgAlias: string | undefined
+  ): Promise<DeployOptions | undefined> {
+    if (options.tests && options.tests.length > 0) {
+      return options;
+    }
+
+    let tests = await this.testSelector.selectTests(components);
+    const inventoryMode = vscode.workspace
+      .getConfiguration("wormhole")
+      .get<OrgInventoryMode>("orgInventory", "exists");
+    const undeployed = tests.filter(
+      (test) =>
+        !components.some(
+          (component) =>
+            component.type === "ApexClass" &&
+            component.name.toLowerCase() === test.toLowerCase()
+        )
+    );
+    if (inventoryMode !== "off" && undeployed.length > 0) {
+      const { missing } = await this.orgInventory.partition(
+        undeployed.map((name) => ({ type: "ApexClass", name })),
+        orgAlias,
+        false
       );
+      if (missing.length > 0) {
+        this.outputChannel.appendLine(
+          `🧪 Leaving out ${missing.length} test class(es) that are neither deployed nor in the org:`
+        );
+        missing.forEach((test) =>
+          this.outputChannel.appendLine(`  - ${test.name}`)
+        );
+        tests = tests.filter(
+          (test) => !missing.some((component) => component.name === test)
+        );
+      }
+    }
+
+    if (tests.length === 0) {
       this.outputChannel.appendLine(
-        "   2. The error is a different type (syntax, validation, etc.)"
+        "🧪 No workspace tests reference the deployed classes or triggers, and RunSpecifiedTests needs at least one"
       );
-      this.outputChannel.appendLine(
-        "   3. The error format is not recognized by the parser"
+      const choice = await vscode.window.showWarningMessage(
+        "No workspace test covers the classes and triggers being deployed, and RunSpecifiedTests needs at least one. Run local tests instead?",
+        "Run Local Tests",
+        "Stop"
       );
-      this.outputChannel.appendLine("");
-      this.outputChannel.appendLine("   Error output preview:");
-      const errorPreview = initialResult.output
-        .split("\n")
-        .slice(0, 10)
-        .join("\n");
+      if (choice !== "Run Local Tests") {
+        return undefined;
+      }
       this.outputChannel.appendLine(
-        `   ${errorPreview.replace(/\n/g, "\n   ")}`
+        "   Running local tests instead, as chosen"
       );
       this.outputChannel.appendLine("");
-      vscode.window.showErrorMessage(
-        "Deployment failed. Check output for details."
-      );
-      return;
+      return { ...options, testLevel: "RunLocalTests", tests: undefined };
     }
 
     this.outputChannel.appendLine(
-      `Found ${missingDependencies.length} missing dependency/dependencies:`
+      `🧪 Selected ${tests.length} test class(es):`
     );
-    missingDependencies.forEach((dep) => {
-      this.outputChannel.appendLine(`  - ${dep.type}: ${dep.name}`);
-    });
+    tests.forEach((test) => this.outputChannel.appendLine(`  - ${test}`));
     this.outputChannel.appendLine("");
+    return { ...options, tests };
+  }
+
+  /**
+   * The result of an attempt stopped because RunSpecifiedTests had no tests to run
+   */
+  private stoppedWithoutTests(): DeploymentResult {
+    this.outputChannel.appendLine(
+      "⏹ Stopped: no tests to run with RunSpecifiedTests. Choose another test level, or pass the tests to run."
+    );
+    return {
+      success: false,
+      cancelled: true,
+      output: "",
+      error: "No tests to run with RunSpecifiedTests",
+    };
+  }
 
-    // Step 5: Search repository for dependency files and add to manifest
+  /**
+   * Locate every pending dependency in the workspace
+   * Returns the number of components added to the plan
+   */
+  private async resolvePending(plan: ResolutionPlan): Promise<number> {
     this.outputChannel.appendLine(
       "🔍 Searching repository for dependency files..."
     );
-    const allComponentsToDeploy: ComponentInfo[] = [...components]; // Start with original components
-    const failedDependencies: ComponentInfo[] = [];
-
-    for (const dependency of missingDependencies) {
-      // Handle CustomField dependencies specially
-      if (dependency.type === "CustomField") {
-        // Check if this field is already included (might be in format "ObjectName.FieldName__c")
-        const alreadyIncluded = allComponentsToDeploy.some(
-          (c) =>
-            c.type === "CustomField" &&
-            (c.name === dependency.name ||
-              c.name.endsWith(`.${dependency.name}`) ||
-              dependency.name === c.name.split(".").pop())
-        );
-        if (alreadyIncluded) {
-          this.outputChannel.appendLine(
-            `  ✓ CustomField ${dependency.name} already included in deployment`
-          );
-          continue;
-        }
-        this.outputChannel.appendLine(
-          `  Searching for CustomField: ${dependency.name}...`
-        );
-        const objectName = await this.componentLocator.findObjectForField(
-          dependency.name
-        );
 
-        if (!objectName) {
-          this.outputChannel.appendLine(
-            `  ⚠ Could not find object for field ${dependency.name}`
-          );
-          failedDependencies.push(dependency);
-          continue;
-        }
-
-        // Create CustomField component with format "ObjectName.FieldName__c"
-        const customFieldComponent: ComponentInfo = {
-          type: "CustomField",
-          name: `${objectName}.${dependency.name}`,
-        };
-        allComponentsToDeploy.push(customFieldComponent);
+    let added = 0;
+    for (const dependency of plan.takePending()) {
+      const component = await this.resolveDependency(dependency);
+      if (!component) {
+        plan.markUnresolvable(dependency);
+      } else if (plan.resolve(component, this.describeOrigin(dependency))) {
+        added++;
+      } else {
         this.outputChannel.appendLine(
-          `  ✓ Found CustomField: ${objectName}.${dependency.name}`
+          `  ✓ ${component.type} ${component.name} already included in deployment`
         );
-        continue;
       }
+    }
+    return added;
+  }
 
-      // Skip if already in the deployment list (for non-CustomField types)
-      const alreadyIncluded = allComponentsToDeploy.some(
-        (c) => c.type === dependency.type && c.name === dependency.name
-      );
-      if (alreadyIncluded) {
-        this.outputChannel.appendLine(
-          `  ✓ ${dependency.name} already included in deployment`
-        );
-        continue;
-      }
+  /**
+   * Why a reported dependency was added: the failing component and error line
+   */
+  private describeOrigin(dependency: ComponentInfo): string {
+    const origin = dependency.origin;
+    if (!origin) {
+      return "reported missing by the deploy";
+    }
+    return `reported missing${
+      origin.componentName ? ` by ${origin.componentName}` : ""
+    }: ${origin.message}`;
+  }
 
-      // Find component file in repository (under force-app/main/default)
+  /**
+   * Find the workspace component for a reported dependency, or null
+   */
+  private async resolveDependency(
+    dependency: ComponentInfo
+  ): Promise<ComponentInfo | null> {
+    // A bare field name needs its object: "Status__c" -> "Invoice__c.Status__c"
+    if (dependency.type === "CustomField" && !dependency.name.includes(".")) {
       this.outputChannel.appendLine(
-        `  Searching for ${dependency.type}: ${dependency.name}...`
+        `  Searching for CustomField: ${dependency.name}...`
       );
-      const filePath = await this.componentLocator.findComponentFile(
-        dependency
+      const objectName = await this.componentLocator.findObjectForField(
+        dependency.name,
+        dependency.origin
       );
-
-      if (!filePath) {
+      if (!objectName) {
         this.outputChannel.appendLine(
-          `  ⚠ Could not find file for ${dependency.type}: ${dependency.name}`
+          `  ⚠ Could not find object for field ${dependency.name}`
         );
-        failedDependencies.push(dependency);
-        continue;
+        return null;
       }
 
-      // Determine component type from file path
-      const componentInfo = await this.componentLocator.pathToComponent(
-        filePath
+      this.outputChannel.appendLine(
+        `  ✓ Found CustomField: ${objectName}.${dependency.name}`
       );
-      if (componentInfo) {
-        componentInfo.filePath = filePath;
-        allComponentsToDeploy.push(componentInfo);
-        this.outputChannel.appendLine(
-          `  ✓ Found ${componentInfo.type}: ${componentInfo.name} at ${filePath}`
-        );
-      } else {
-        // Fallback: use the dependency info we have
-        dependency.filePath = filePath;
-        allComponentsToDeploy.push(dependency);
-        this.outputChannel.appendLine(
-          `  ✓ Found ${dependency.type}: ${dependency.name} at ${filePath}`
-        );
-      }
+      return { type: "CustomField", name: `${objectName}.${dependency.name}` };
     }
 
-    this.outputChannel.appendLine("");
+    // Find component file in the package directories of sfdx-project.json
     this.outputChannel.appendLine(
-      `📦 Deploying ${allComponentsToDeploy.length} component(s) together:`
+      `  Searching for ${dependency.type}: ${dependency.name}...`
     );
-    allComponentsToDeploy.forEach((comp, index) => {
+    const filePath = await this.componentLocator.findComponentFile(dependency);
+    if (!filePath) {
       this.outputChannel.appendLine(
-        `  ${index + 1}. ${comp.type}: ${comp.name}`
+        `  ⚠ Could not find file for ${dependency.type}: ${dependency.name}`
       );
-    });
-    this.outputChannel.appendLine("");
+      return null;
+    }
 
-    // Step 6: Deploy all components together (original + dependencies) in one manifest
-    // Log deployment details before deploying
-    this.outputChannel.appendLine("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
-    this.outputChannel.appendLine("📤 SENDING TO SALESFORCE");
-    this.outputChannel.appendLine("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+    // Determine component type from file path; a labels file holds every
+    // label and a field was already qualified by the error, so keep those as reported
+    const componentInfo =
+      dependency.type === "CustomLabel" || dependency.type === "CustomField"
+        ? null
+        : await this.componentLocator.pathToComponent(filePath);
+    const component: ComponentInfo = componentInfo
+      ? { ...componentInfo, filePath }
+      : {
+          ...dependency,
+          filePath,
+          packageDirectory: this.componentLocator.getPackageDirectory(filePath),
+        };
+
+    this.outputChannel.appendLine(
+      `  ✓ Found ${component.type}: ${component.name} at ${this.formatLocation(
+        filePath
+      )}`
+    );
+    return component;
+  }
+
+  /**
+   * Explain why the engine stopped instead of deploying the same set again
+   */
+  private logLoopDetected(
+    plan: ResolutionPlan,
+    failures: ClassifiedFailure[]
+  ): void {
+    this.outputChannel.appendLine("");
     this.outputChannel.appendLine(
-      `Components to deploy: ${allComponentsToDeploy.length}`
+      "⚠️  LOOP DETECTED: Already attempted deploying these exact components together."
     );
     this.outputChannel.appendLine("");
-    this.outputChannel.appendLine("Component List:");
-    allComponentsToDeploy.forEach((comp, index) => {
+    this.outputChannel.appendLine("   Components:");
+    plan.getComponents().forEach((comp, index) => {
       this.outputChannel.appendLine(
-        `  ${index + 1}. ${comp.type}: ${comp.name}`
+        `     ${index + 1}. ${comp.type}: ${comp.name}`
       );
-      if (comp.filePath) {
-        this.outputChannel.appendLine(`     File: ${comp.filePath}`);
-      }
     });
     this.outputChannel.appendLine("");
-
-    // Mark this combination as attempted BEFORE deploying (for loop detection)
-    const deploymentSignature = this.getComponentSignature(
-      allComponentsToDeploy
+    this.outputChannel.appendLine(
+      "   No new dependencies found. Stopping to prevent infinite loop."
     );
-    if (!this.attemptedDeployments.has(deploymentSignature)) {
-      this.attemptedDeployments.add(deploymentSignature);
-      this.attemptedDeploymentDetails.set(deploymentSignature, [
-        ...allComponentsToDeploy,
-      ]);
-    }
-
-    // Increment attempt counter for the combined deployment
-    this.deploymentAttemptCounter++;
-    const combinedAttempt = this.deploymentAttemptCounter;
+    this.logFailureSummary(failures);
+    vscode.window.showErrorMessage(
+      "Deployment failed: No new dependencies found. The same error persists."
+    );
+  }
 
-    const combinedResult = await this.deployComponentList(
-      allComponentsToDeploy,
-      orgAlias,
-      combinedAttempt
+  private createOutcome(
+    plan: ResolutionPlan,
+    options: DeployOptions,
+    status: DeploymentStatus,
+    failures: ClassifiedFailure[]
+  ): DeploymentOutcome {
+    const attempts = plan.getAttempts();
+    this.outputChannel.appendLine("");
+    this.outputChannel.appendLine(
+      `=== ${options.dryRun ? "Validation" : "Deployment"} ${status} after ${
+        attempts.length
+      } attempt(s) ===`
     );
+    return {
+      status,
+      dryRun: !!options.dryRun,
+      deployId: attempts[attempts.length - 1]?.deployId,
+      components: plan.getComponents(),
+      unresolvable: plan.getUnresolvable(),
+      attempts,
+      failures,
+    };
+  }
 
-    if (combinedResult.success) {
-      this.outputChannel.appendLine("✓ All components deployed successfully!");
-      vscode.window.showInformationMessage(
-        "SF Wormhole Deploy completed successfully!"
-      );
+  /**
+   * Run the static dependency analysis and return the workspace components
+   * to add, leaving out those the org already has
+   */
+  private async addPreflightDependencies(
+    components: ComponentInfo[],
+    orgAlias?: string
+  ): Promise<AnalyzedDependency[]> {
+    this.outputChannel.appendLine("🔎 Pre-flight dependency analysis...");
+    let dependencies = await this.dependencyAnalyzer.analyze(components);
 
-      // Mark all components as deployed
-      allComponentsToDeploy.forEach((comp) => {
-        this.stateManager.markDeployed(comp);
-      });
-    } else {
-      // Check if it's a conflict error
-      if (this.errorParser.isConflictError(combinedResult.output)) {
-        const conflictComponents = this.errorParser.parseConflictComponents(
-          combinedResult.output
+    // Dependencies the org already has would only bloat the deploy
+    const inventoryMode = vscode.workspace
+      .getConfiguration("wormhole")
+      .get<OrgInventoryMode>("orgInventory", "exists");
+    let missingObjects: ComponentInfo[] = [];
+    if (inventoryMode !== "off" && dependencies.length > 0) {
+      const { missing, existing, unchecked } =
+        await this.orgInventory.partition(
+          dependencies.map((dependency) => dependency.component),
+          orgAlias,
+          inventoryMode === "compare"
         );
-        this.outputChannel.appendLine("");
+      if (existing.length > 0) {
         this.outputChannel.appendLine(
-          "⚠️  CONFLICT DETECTED: Some components have conflicts with the org"
+          `   Skipping ${existing.length} component(s) already in the org${
+            inventoryMode === "compare" ? " with identical content" : ""
+          }:`
         );
-        conflictComponents.forEach((comp) => {
+        existing.forEach((component) => {
           this.outputChannel.appendLine(
-            `   Conflict: ${comp.type}: ${comp.name}`
+            `   = ${component.type}: ${component.name}`
           );
         });
-        this.outputChannel.appendLine("");
-        this.outputChannel.appendLine(
-          "   These components exist in the org with different changes."
-        );
-        this.outputChannel.appendLine(
-          "   Please resolve conflicts manually or retrieve the org version first."
+        dependencies = dependencies.filter(
+          (dependency) => !existing.includes(dependency.component)
         );
-        vscode.window.showErrorMessage(
-          `Deployment failed due to conflicts: ${conflictComponents
-            .map((c) => c.name)
-            .join(", ")}`
-        );
-        return;
       }
 
-      // Check for additional dependencies in the combined deployment error
-      const additionalDeps = this.errorParser.parseMissingDependencies(
-        combinedResult.output
-      );
-
-      // Filter out dependencies that are already in our deployment list
-      const newDeps = additionalDeps.filter((dep) => {
-        // Skip single-digit dependencies (likely line number parsing errors)
-        if (/^\d+$/.test(dep.name) && dep.name.length === 1) {
-          return false;
-        }
-
-        if (dep.type === "CustomField") {
-          // For CustomField, check if it's already included (might be in format "ObjectName.FieldName__c")
-          return !allComponentsToDeploy.some(
-            (c) =>
-              c.type === "CustomField" &&
-              (c.name === dep.name ||
-                c.name.endsWith(`.${dep.name}`) ||
-                dep.name === c.name.split(".").pop())
-          );
+      if (unchecked.length > 0) {
+        // Adding them all can bloat the deploy and skipping them can fail it, so ask
+        const choice = await vscode.window.showWarningMessage(
+          `Could not check ${unchecked.length} referenced component(s) against the org. Add them to the deploy?`,
+          "Add Them",
+          "Skip Them"
+        );
+        if (choice === "Add Them") {
+          missing.push(...unchecked);
         } else {
-          // For other types, exact match
-          return !allComponentsToDeploy.some(
-            (c) => c.type === dep.type && c.name === dep.name
+          this.outputChannel.appendLine(
+            `   Skipping ${unchecked.length} component(s) the org inventory couldn't check:`
+          );
+          unchecked.forEach((component) => {
+            this.outputChannel.appendLine(
+              `   ? ${component.type}: ${component.name}`
+            );
+          });
+          dependencies = dependencies.filter(
+            (dependency) => !unchecked.includes(dependency.component)
           );
         }
-      });
+      }
+      missingObjects = missing.filter(
+        (component) => component.type === "CustomObject"
+      );
+    }
 
-      if (newDeps.length > 0) {
+    // A whole object would deploy every field, validation rule and list view;
+    // its referenced fields go on their own, and the object only when the org
+    // is known to lack it (otherwise a failed deploy reports the parent missing)
+    const objects = dependencies.filter(
+      (dependency) =>
+        dependency.component.type === "CustomObject" &&
+        !missingObjects.includes(dependency.component)
+    );
+    if (objects.length > 0) {
+      this.outputChannel.appendLine(
+        `   Deploying only the referenced fields of ${objects.length} object(s) not known to be missing from the org:`
+      );
+      objects.forEach((dependency) => {
         this.outputChannel.appendLine(
-          `Found ${newDeps.length} new dependency/dependencies. Resolving and adding...`
+          `   ~ CustomObject: ${dependency.component.name}`
         );
-        this.outputChannel.appendLine("");
+      });
+      dependencies = dependencies.filter(
+        (dependency) => !objects.includes(dependency)
+      );
+    }
+    // Drop what was only found through a skipped component
+    dependencies = DependencyAnalyzer.withoutOrphans(dependencies, components);
 
-        // Resolve and add the new dependencies to the deployment list
-        const updatedComponentsToDeploy = [...allComponentsToDeploy];
-
-        for (const dependency of newDeps) {
-          // Handle CustomField dependencies specially
-          if (dependency.type === "CustomField") {
-            // Check if this field is already included
-            const alreadyIncluded = updatedComponentsToDeploy.some(
-              (c) =>
-                c.type === "CustomField" &&
-                (c.name === dependency.name ||
-                  c.name.endsWith(`.${dependency.name}`) ||
-                  dependency.name === c.name.split(".").pop())
-            );
-            if (alreadyIncluded) {
-              this.outputChannel.appendLine(
-                `  ✓ CustomField ${dependency.name} already included`
-              );
-              continue;
-            }
+    if (dependencies.length === 0) {
+      this.outputChannel.appendLine("   No additional dependencies found");
+      this.outputChannel.appendLine("");
+      return [];
+    }
 
-            this.outputChannel.appendLine(
-              `  Searching for CustomField: ${dependency.name}...`
-            );
-            const objectName = await this.componentLocator.findObjectForField(
-              dependency.name
-            );
+    this.outputChannel.appendLine(
+      `   Adding ${dependencies.length} referenced component(s):`
+    );
+    dependencies.forEach((dependency) => {
+      this.outputChannel.appendLine(
+        `   + ${dependency.component.type}: ${dependency.component.name} (${dependency.reason} in ${dependency.referencedBy.name})`
+      );
+    });
+    this.outputChannel.appendLine("");
 
-            if (!objectName) {
-              this.outputChannel.appendLine(
-                `  ⚠ Could not find object for field ${dependency.name}`
-              );
-              continue;
-            }
-
-            // Create CustomField component with format "ObjectName.FieldName__c"
-            const customFieldComponent: ComponentInfo = {
-              type: "CustomField",
-              name: `${objectName}.${dependency.name}`,
-            };
-            updatedComponentsToDeploy.push(customFieldComponent);
-            this.outputChannel.appendLine(
-              `  ✓ Found CustomField: ${objectName}.${dependency.name}`
-            );
-          } else {
-            // For other types, find the component file
-            this.outputChannel.appendLine(
-              `  Searching for ${dependency.type}: ${dependency.name}...`
-            );
-            const filePath = await this.componentLocator.findComponentFile(
-              dependency
-            );
+    return dependencies;
+  }
 
-            if (!filePath) {
-              this.outputChannel.appendLine(
-                `  ⚠ Could not find file for ${dependency.type}: ${dependency.name}`
-              );
-              continue;
-            }
+  /**
+   * Stop the deployment when a failure belongs to one of the stop categories
+   * (by default every category that adding dependencies cannot fix).
+   * Returns true if the deployment was stopped.
+   */
+  private stopOnBlockingFailures(
+    result: DeploymentResult,
+    failures: ClassifiedFailure[],
+    stopCategories: FailureCategory[] = STOP_CATEGORIES
+  ): boolean {
+    const blocking = failures.filter((failure) =>
+      stopCategories.includes(failure.category)
+    );
+    if (blocking.length === 0) {
+      return false;
+    }
 
-            // Determine component type from file path
-            const componentInfo = await this.componentLocator.pathToComponent(
-              filePath
-            );
-            if (componentInfo) {
-              componentInfo.filePath = filePath;
-              updatedComponentsToDeploy.push(componentInfo);
-              this.outputChannel.appendLine(
-                `  ✓ Found ${componentInfo.type}: ${componentInfo.name} at ${filePath}`
-              );
-            } else {
-              // Fallback: use the dependency info we have
-              dependency.filePath = filePath;
-              updatedComponentsToDeploy.push(dependency);
-              this.outputChannel.appendLine(
-                `  ✓ Found ${dependency.type}: ${dependency.name} at ${filePath}`
-              );
-            }
-          }
-        }
+    this.outputChannel.appendLine("");
+    this.outputChannel.appendLine(
+      "⛔ Deployment stopped: these errors cannot be fixed by adding dependencies."
+    );
+    this.logFailureSummary(failures);
 
-        this.outputChannel.appendLine("");
+    if (blocking.some((failure) => failure.category === "conflict")) {
+      const conflictComponents = this.errorParser.parseConflictComponents(
+        result.output
+      );
+      conflictComponents.forEach((comp) => {
         this.outputChannel.appendLine(
-          `📦 Updated deployment list: ${updatedComponentsToDeploy.length} component(s)`
+          `   Conflict: ${comp.type}: ${comp.name}`
         );
-        updatedComponentsToDeploy.forEach((comp, index) => {
-          this.outputChannel.appendLine(
-            `  ${index + 1}. ${comp.type}: ${comp.name}`
-          );
-        });
-        this.outputChannel.appendLine("");
-
-        // Recursively deploy with the new dependencies added
-        await this.deployComponents(
-          updatedComponentsToDeploy,
-          recursionDepth + 1
-        );
-      } else {
-        // Check if we're trying to deploy the same components again (loop detection)
-        const componentSignature = this.getComponentSignature(
-          allComponentsToDeploy
-        );
-        if (this.attemptedDeployments.has(componentSignature)) {
-          const previousAttempt =
-            this.attemptedDeploymentDetails.get(componentSignature);
-          this.outputChannel.appendLine("");
-          this.outputChannel.appendLine(
-            "⚠️  LOOP DETECTED: Already attempted deploying these exact components together."
-          );
-          this.outputChannel.appendLine("");
-          if (previousAttempt) {
-            this.outputChannel.appendLine(
-              "   Last attempt included these components:"
-            );
-            previousAttempt.forEach((comp, index) => {
-              this.outputChannel.appendLine(
-                `     ${index + 1}. ${comp.type}: ${comp.name}`
-              );
-            });
-          }
-          this.outputChannel.appendLine("");
-          this.outputChannel.appendLine(
-            "   Current attempt includes these components:"
-          );
-          allComponentsToDeploy.forEach((comp, index) => {
-            this.outputChannel.appendLine(
-              `     ${index + 1}. ${comp.type}: ${comp.name}`
-            );
-          });
-          this.outputChannel.appendLine("");
-          this.outputChannel.appendLine(
-            "   No new dependencies found. Stopping to prevent infinite loop."
-          );
-          vscode.window.showErrorMessage(
-            "Deployment failed: No new dependencies found. The same error persists."
-          );
-        } else {
-          this.outputChannel.appendLine("");
-          this.outputChannel.appendLine(
-            "⚠️  Deployment failed and no new dependencies were detected."
-          );
-          this.outputChannel.appendLine(
-            "   This may indicate a different type of error (e.g., field-level, syntax, etc.)."
-          );
-          this.outputChannel.appendLine("   Check output for details.");
-          vscode.window.showErrorMessage(
-            "Deployment failed. Check output for details."
-          );
-        }
-      }
+      });
+      this.outputChannel.appendLine(
+        "   Please resolve conflicts manually or retrieve the org version first."
+      );
+      this.outputChannel.appendLine("");
+    }
+    if (blocking.some((failure) => failure.category === "cliOrAuth")) {
+      this.outputChannel.appendLine(
+        "   Check that the Salesforce CLI is installed and re-run: SF Wormhole Deploy: Authenticate Salesforce Org"
+      );
+      this.outputChannel.appendLine("");
     }
+
+    const categories = Array.from(
+      new Set(blocking.map((failure) => failure.category))
+    ).map((category) => ErrorParser.getCategoryLabel(category));
+    vscode.window.showErrorMessage(
+      `Deployment failed: ${categories.join(", ")}. Check output for details.`
+    );
+    return true;
   }
 
   /**
-   * Create a signature string for a component list (for duplicate detection)
+   * Render a resolved file with the package directory it came from
    */
-  private getComponentSignature(components: ComponentInfo[]): string {
-    const sorted = [...components]
-      .sort((a, b) => {
-        if (a.type !== b.type) return a.type.localeCompare(b.type);
-        return a.name.localeCompare(b.name);
-      })
-      .map((c) => `${c.type}:${c.name}`)
-      .join("|");
-    return sorted;
+  private formatLocation(filePath: string): string {
+    const packageDirectory =
+      this.componentLocator.getPackageDirectory(filePath);
+    return packageDirectory
+      ? `${filePath} (package: ${packageDirectory})`
+      : filePath;
+  }
+
+  /**
+   * Log failures grouped by category
+   */
+  private logFailureSummary(failures: ClassifiedFailure[]): void {
+    this.outputChannel.appendLine("");
+    this.outputChannel.appendLine("📋 Failure Summary:");
+
+    if (failures.length === 0) {
+      this.outputChannel.appendLine("   No failure details were reported.");
+    }
+
+    ErrorParser.groupByCategory(failures).forEach((group, category) => {
+      this.outputChannel.appendLine(
+        `   ${ErrorParser.getCategoryLabel(category)} (${group.length})`
+      );
+      group.forEach((failure) => {
+        const component = failure.component
+          ? `${failure.component.type} ${failure.component.name}`
+          : "";
+        const location =
+          failure.lineNumber !== undefined
+            ? ` (${failure.lineNumber}:${failure.columnNumber ?? 0})`
+            : "";
+        const prefix = component ? `${component}${location}: ` : "";
+        this.outputChannel.appendLine(
+          `     - ${prefix}${failure.message.replace(/\n/g, "\n       ")}`
+        );
+      });
+    });
+    this.outputChannel.appendLine("");
   }
 
   /**
@@ -630,15 +1163,14 @@ export class DeploymentOrchestrator {
   private async deployComponentList(
     components: ComponentInfo[],
     orgAlias?: string,
-    attemptNumber?: number
+    attemptNumber?: number,
+    options: DeployOptions = {},
+    progress?: DeployProgress,
+    token?: vscode.CancellationToken
   ): Promise<DeploymentResult> {
-    // Verify components exist before deploying (skip CustomField as it doesn't have a file path)
+    // Verify components exist before deploying
+    // Object children (e.g., CustomField "Account.Field__c") are indexed by their qualified names
     for (const component of components) {
-      if (component.type === "CustomField") {
-        // CustomField components don't have file paths - they're referenced by ObjectName.FieldName__c
-        continue;
-      }
-
       if (!component.filePath) {
         const filePath = await this.componentLocator.findComponentFile(
           component
@@ -655,91 +1187,83 @@ export class DeploymentOrchestrator {
     }
 
     // Deploy using manifest (package.xml)
-    return this.cliExecutor.deployComponents(
+    let result = await this.cliExecutor.deployComponents(
       components,
       orgAlias,
       this.componentLocator,
-      attemptNumber
+      attemptNumber,
+      options,
+      progress,
+      token
     );
-  }
-
-  /**
-   * Retry all queued deployments
-   */
-  private async retryQueuedDeployments(orgAlias?: string): Promise<void> {
-    while (!this.stateManager.isQueueEmpty()) {
-      const queuedItem = this.stateManager.getNextQueuedItem();
 
-      if (!queuedItem) {
+    // Retry the same deploy while it only fails on lock/row contention
+    for (let retry = 1; !result.success && retry <= MAX_LOCK_RETRIES; retry++) {
+      const failures = this.errorParser.classifyFailures(result, components);
+      const onlyLockContention =
+        failures.length > 0 &&
+        failures.every((failure) => failure.category === "lockContention");
+      if (!onlyLockContention) {
         break;
       }
 
-      // Check retry limit
-      if (queuedItem.retryCount >= 3) {
-        this.outputChannel.appendLine(
-          `⚠ Max retries reached for components. Skipping...`
-        );
-        continue;
-      }
-
+      const delayMs = LOCK_RETRY_DELAY_MS * retry;
+      this.outputChannel.appendLine("");
       this.outputChannel.appendLine(
-        `Retrying deployment (attempt ${queuedItem.retryCount + 1})...`
+        `🔒 Lock contention detected. Retrying in ${
+          delayMs / 1000
+        }s (retry ${retry}/${MAX_LOCK_RETRIES})...`
       );
+      if (!(await this.wait(delayMs, token))) {
+        this.outputChannel.appendLine("⏹ Cancelled while waiting to retry");
+        return {
+          success: false,
+          cancelled: true,
+          output: result.output,
+          error: "Cancelled by user",
+        };
+      }
 
-      // Increment attempt counter for queued retry
-      this.deploymentAttemptCounter++;
-      const queuedAttempt = this.deploymentAttemptCounter;
-
-      const result = await this.deployComponentList(
-        queuedItem.components,
+      result = await this.cliExecutor.deployComponents(
+        components,
         orgAlias,
-        queuedAttempt
+        this.componentLocator,
+        attemptNumber,
+        options,
+        progress,
+        token
       );
+    }
 
-      if (result.success) {
-        this.outputChannel.appendLine("✓ Retry deployment successful!");
-
-        // Mark components as deployed
-        queuedItem.components.forEach((comp) => {
-          this.stateManager.markDeployed(comp);
-        });
-      } else {
-        // Check for new dependencies
-        const newDependencies = this.errorParser.parseMissingDependencies(
-          result.output
-        );
+    if (result.success && !options.dryRun) {
+      // The org changed; list it again on the next check
+      this.orgInventory.clear(orgAlias);
+    }
 
-        if (newDependencies.length > 0) {
-          this.outputChannel.appendLine(
-            `Found ${newDependencies.length} new dependencies. Deploying...`
-          );
-          await this.deployComponents(newDependencies);
+    return result;
+  }
 
-          // Queue for retry again
-          if (this.stateManager.incrementRetry(queuedItem)) {
-            this.stateManager.queueDeployment(queuedItem.components);
-          }
-        } else {
-          // No new dependencies, might be a different error
-          if (this.stateManager.incrementRetry(queuedItem)) {
-            this.stateManager.queueDeployment(queuedItem.components);
-          } else {
-            this.outputChannel.appendLine(
-              "⚠ Max retries reached. Deployment failed."
-            );
-            vscode.window.showErrorMessage(
-              "Deployment failed after maximum retries."
-            );
-          }
-        }
+  /**
+   * Wait for the delay; resolves false as soon as the token is cancelled
+   */
+  private wait(
+    delayMs: number,
+    token?: vscode.CancellationToken
+  ): Promise<boolean> {
+    return new Promise((resolve) => {
+      if (token?.isCancellationRequested) {
+        resolve(false);
+        return;
       }
-    }
-
-    // Final status
-    if (this.stateManager.isQueueEmpty()) {
-      this.outputChannel.appendLine("");
-      this.outputChannel.appendLine("=== Deployment Process Complete ===");
-      vscode.window.showInformationMessage("SF Wormhole Deploy completed!");
-    }
+      const timer = setTimeout(() => {
+        subscription?.dispose();
+        resolve(true);
+      }, delayMs);
+      const subscription = token?.onCancellationRequested(() => {
+        clearTimeout(timer);
+        subscription?.dispose();
+        resolve(false);
+      });
+    });
   }
 }
@@ -0,0 +1,134 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { ComponentInfo } from "../types";
+import { ComponentLocator } from "../utils/componentLocator";
+import { PromptQueue } from "../utils/promptQueue";
+import { ResolutionPlan } from "./resolutionPlan";
+
+interface PlanItem extends vscode.QuickPickItem {
+  component?: ComponentInfo; // Unset on the "pin more" entry
+}
+
+/**
+ * Shows the components an attempt is about to deploy and lets the user
+ * untick them, pin more, or abort
+ */
+export class PlanPreview {
+  private componentLocator: ComponentLocator;
+  private outputChannel: vscode.OutputChannel;
+
+  constructor(
+    componentLocator: ComponentLocator,
+    outputChannel: vscode.OutputChannel
+  ) {
+    this.componentLocator = componentLocator;
+    this.outputChannel = outputChannel;
+  }
+
+  /**
+   * Let the user review the plan's deploy set, updating the plan with their choices
+   * Returns false when the user aborts or leaves nothing to deploy
+   * With wormhole.autoApprovePlan the plan is approved as it is
+   */
+  public async review(
+    plan: ResolutionPlan,
+    attemptNumber: number,
+    dryRun: boolean
+  ): Promise<boolean> {
+    if (
+      vscode.workspace
+        .getConfiguration("wormhole")
+        .get<boolean>("autoApprovePlan", false)
+    ) {
+      return true;
+    }
+
+    while (true) {
+      const items: PlanItem[] = plan.getComponents().map((component) => ({
+        label: `${component.type}: ${component.name}`,
+        description: plan.getReason(component) || "selected",
+        detail: component.filePath
+          ? vscode.workspace.asRelativePath(component.filePath)
+          : undefined,
+        picked: true,
+        component,
+      }));
+      items.push({
+        label: "$(add) Pin more components...",
+        description: "Choose files or folders to add to the deployment",
+      });
+
+      const picks = await PromptQueue.run(() =>
+        vscode.window.showQuickPick(items, {
+          canPickMany: true,
+          ignoreFocusOut: true,
+          placeHolder: `${
+            dryRun ? "Validation" : "Deployment"
+          } plan, attempt ${attemptNumber}: untick components to leave out, Escape to abort`,
+        })
+      );
+      if (!picks) {
+        return false;
+      }
+
+      const kept = new Set(picks);
+      for (const item of items) {
+        if (item.component && !kept.has(item)) {
+          const dropped = plan.exclude(item.component);
+          this.outputChannel.appendLine(
+            `   - Left out by you: ${item.component.type}: ${item.component.name}`
+          );
+          dropped.forEach((component) =>
+            this.outputChannel.appendLine(
+              `   - Left out with it (nothing else references it): ${component.type}: ${component.name}`
+            )
+          );
+        }
+      }
+
+      // Ticking the pin entry adds components, then shows the plan again
+      if (picks.some((item) => !item.component)) {
+        await this.pinComponents(plan);
+        continue;
+      }
+
+      if (plan.getComponents().length === 0) {
+        vscode.window.showWarningMessage(
+          "Nothing left to deploy; every component was unticked."
+        );
+        return false;
+      }
+      return true;
+    }
+  }
+
+  private async pinComponents(plan: ResolutionPlan): Promise<void> {
+    const uris = await vscode.window.showOpenDialog({
+      canSelectFiles: true,
+      canSelectFolders: true,
+      canSelectMany: true,
+      openLabel: "Pin to Deployment",
+    });
+    if (!uris || uris.length === 0) {
+      return;
+    }
+
+    const components = await this.componentLocator.collectComponents(
+      uris.map((uri) => uri.fsPath)
+    );
+    if (components.length === 0) {
+      vscode.window.showWarningMessage(
+        `No Salesforce components found in ${uris
+          .map((uri) => path.basename(uri.fsPath))
+          .join(", ")}`
+      );
+      return;
+    }
+    components.forEach((component) => {
+      plan.pin(component);
+      this.outputChannel.appendLine(
+        `   + Pinned by you: ${component.type}: ${component.name}`
+      );
+    });
+  }
+}
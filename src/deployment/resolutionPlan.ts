@@ -0,0 +1,211 @@
+import { ComponentInfo, ResolutionAttempt } from "../types";
+
+/**
+ * State of one deployment's dependency resolution: the components to deploy
+ * and why each was added, dependencies reported missing but not located yet,
+ * those that can't be located, those the user left out, those earlier
+ * deploy waves already deployed, and every attempt made. Uses no VS Code APIs.
+ */
+export class ResolutionPlan {
+  private components: ComponentInfo[];
+  private pending: ComponentInfo[] = [];
+  private unresolvable: ComponentInfo[] = [];
+  private excluded: ComponentInfo[] = [];
+  private deployed: ComponentInfo[] = []; // By waves of failed attempts
+  private reasons: Map<string, string> = new Map(); // Why components were added
+  // Pre-flight dependencies -> the components whose source references them
+  private referrers: Map<string, ComponentInfo[]> = new Map();
+  private attempts: ResolutionAttempt[] = [];
+  private signatures: Set<string> = new Set();
+
+  constructor(components: ComponentInfo[]) {
+    this.components = [...components];
+  }
+
+  /**
+   * Components to deploy: the originals and every dependency resolved so far
+   */
+  public getComponents(): ComponentInfo[] {
+    return [...this.components];
+  }
+
+  public getPending(): ComponentInfo[] {
+    return [...this.pending];
+  }
+
+  public getUnresolvable(): ComponentInfo[] {
+    return [...this.unresolvable];
+  }
+
+  public getAttempts(): ResolutionAttempt[] {
+    return [...this.attempts];
+  }
+
+  /**
+   * Why a component was added, or undefined for the components the deployment started with
+   */
+  public getReason(component: ComponentInfo): string | undefined {
+    return this.reasons.get(this.key(component));
+  }
+
+  /**
+   * Queue reported dependencies for resolution
+   * Returns the ones that are new: not deployed, pending, known to be unresolvable or excluded
+   */
+  public addPending(dependencies: ComponentInfo[]): ComponentInfo[] {
+    const added: ComponentInfo[] = [];
+    for (const dependency of dependencies) {
+      // Single digits are line numbers the error parser mistook for names
+      if (/^\d$/.test(dependency.name)) {
+        continue;
+      }
+      if (
+        this.includes(dependency) ||
+        [...this.pending, ...this.unresolvable, ...this.excluded].some(
+          (known) => this.matches(known, dependency)
+        )
+      ) {
+        continue;
+      }
+      this.pending.push(dependency);
+      added.push(dependency);
+    }
+    return added;
+  }
+
+  /**
+   * Remove and return the pending dependencies
+   */
+  public takePending(): ComponentInfo[] {
+    const pending = this.pending;
+    this.pending = [];
+    return pending;
+  }
+
+  /**
+   * Add a located dependency to the deploy set, with why it is needed and,
+   * for pre-flight dependencies, the components referencing it
+   * Returns false when the set already holds it or the user excluded it
+   */
+  public resolve(
+    component: ComponentInfo,
+    reason: string,
+    referrers: ComponentInfo[] = []
+  ): boolean {
+    if (
+      this.includes(component) ||
+      this.excluded.some((known) => this.matches(known, component))
+    ) {
+      return false;
+    }
+    this.components.push(component);
+    this.reasons.set(this.key(component), reason);
+    if (referrers.length > 0) {
+      this.referrers.set(this.key(component), referrers);
+    }
+    return true;
+  }
+
+  /**
+   * Add a component the user asked for; it overrides an earlier exclusion
+   */
+  public pin(component: ComponentInfo): void {
+    this.excluded = this.excluded.filter(
+      (known) => !this.matches(known, component)
+    );
+    if (!this.includes(component)) {
+      this.components.push(component);
+    }
+    this.reasons.set(this.key(component), "pinned");
+    this.referrers.delete(this.key(component));
+  }
+
+  /**
+   * Remove a component from the deploy set and keep it out for the rest of the deployment
+   * Pre-flight dependencies no remaining component references are dropped
+   * with it, but not kept out: a failed deploy may still report them
+   * Returns the dropped dependencies
+   */
+  public exclude(component: ComponentInfo): ComponentInfo[] {
+    this.components = this.components.filter(
+      (c) => !this.matches(c, component)
+    );
+    this.excluded.push(component);
+
+    const isOrphan = (c: ComponentInfo) => {
+      const referrers = this.referrers.get(this.key(c));
+      return !!referrers && !referrers.some((r) => this.includes(r));
+    };
+    const dropped: ComponentInfo[] = [];
+    let orphans = this.components.filter(isOrphan);
+    while (orphans.length > 0) {
+      this.components = this.components.filter((c) => !orphans.includes(c));
+      dropped.push(...orphans);
+      orphans = this.components.filter(isOrphan);
+    }
+    return dropped;
+  }
+
+  public markUnresolvable(dependency: ComponentInfo): void {
+    this.unresolvable.push(dependency);
+  }
+
+  /**
+   * Record components a deploy wave put in the org, so later attempts skip them
+   */
+  public markDeployed(components: ComponentInfo[]): void {
+    this.deployed.push(...components);
+  }
+
+  public isDeployed(component: ComponentInfo): boolean {
+    return this.deployed.some((known) => this.matches(known, component));
+  }
+
+  /**
+   * Whether the deploy set already holds the component
+   * A bare field name ("Status__c") matches any object's field of that name
+   */
+  public includes(component: ComponentInfo): boolean {
+    return this.components.some((c) => this.matches(c, component));
+  }
+
+  /**
+   * Whether the current deploy set was deployed before
+   */
+  public hasAttemptedCurrentSet(): boolean {
+    return this.signatures.has(this.signature(this.components));
+  }
+
+  public recordAttempt(attempt: ResolutionAttempt): void {
+    this.attempts.push(attempt);
+    this.signatures.add(this.signature(attempt.components));
+  }
+
+  private matches(a: ComponentInfo, b: ComponentInfo): boolean {
+    if (a.type !== b.type) {
+      return false;
+    }
+    if (a.type === "CustomField") {
+      return (
+        a.name === b.name ||
+        a.name.split(".").pop() === b.name ||
+        b.name.split(".").pop() === a.name
+      );
+    }
+    return a.name === b.name;
+  }
+
+  private key(component: ComponentInfo): string {
+    return `${component.type}:${component.name}`.toLowerCase();
+  }
+
+  /**
+   * Order-independent signature of a component set
+   */
+  private signature(components: ComponentInfo[]): string {
+    return components
+      .map((c) => `${c.type}:${c.name}`)
+      .sort()
+      .join("|");
+  }
+}
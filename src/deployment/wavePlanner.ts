@@ -0,0 +1,185 @@
+import { ComponentInfo } from "../types";
+
+// The data model deploys first; triggers, UI and access metadata go after the code they use
+const FIRST_TYPES = [
+  "CustomObject",
+  "CustomField",
+  "RecordType",
+  "GlobalValueSet",
+  "StandardValueSet",
+  "CustomLabel",
+  "CustomLabels",
+  "CustomMetadata",
+  "StaticResource",
+  "LightningMessageChannel",
+];
+const LAST_TYPES = [
+  "ApexTrigger",
+  "LightningComponentBundle",
+  "AuraDefinitionBundle",
+  "FlexiPage",
+  "Layout",
+  "PermissionSet",
+  "Profile",
+];
+
+/**
+ * Splits a deploy set into waves that each only depend on earlier waves:
+ * objects and fields, then classes in dependency order, then triggers,
+ * Lightning bundles, pages and access metadata. Components that depend on
+ * each other share a wave. Uses no VS Code APIs.
+ */
+export class WavePlanner {
+  /**
+   * Order the components into waves
+   * References outside the set are ignored; fields share their object's wave
+   */
+  public static plan(
+    components: ComponentInfo[],
+    references: Map<ComponentInfo, ComponentInfo[]>
+  ): ComponentInfo[][] {
+    const dependencies = this.withParentObjects(components, references);
+    const groups = this.stronglyConnected(components, dependencies);
+
+    const groupOf = new Map<ComponentInfo, number>();
+    groups.forEach((group, index) =>
+      group.forEach((component) => groupOf.set(component, index))
+    );
+
+    // Tarjan's algorithm emits groups after the groups they depend on, so a
+    // group's tier (never below its dependencies') and depth build on theirs
+    const tiers: number[] = [];
+    const depths: number[] = [];
+    groups.forEach((group, index) => {
+      let tier = Math.max(...group.map((component) => this.tier(component)));
+      let depth = 0;
+      for (const component of group) {
+        for (const dependency of dependencies.get(component) || []) {
+          const dependencyGroup = groupOf.get(dependency)!;
+          if (dependencyGroup !== index) {
+            tier = Math.max(tier, tiers[dependencyGroup]);
+            depth = Math.max(depth, depths[dependencyGroup] + 1);
+          }
+        }
+      }
+      tiers[index] = tier;
+      depths[index] = depth;
+    });
+
+    // One wave per tier and depth, in that order; components keep the deploy set's order
+    const waves = new Map<string, ComponentInfo[]>();
+    const order = groups
+      .map((_, index) => index)
+      .sort((a, b) => tiers[a] - tiers[b] || depths[a] - depths[b]);
+    for (const index of order) {
+      const key = `${tiers[index]}:${depths[index]}`;
+      waves.set(key, [...(waves.get(key) || []), ...groups[index]]);
+    }
+    return Array.from(waves.values()).map((wave) =>
+      wave.sort((a, b) => components.indexOf(a) - components.indexOf(b))
+    );
+  }
+
+  private static tier(component: ComponentInfo): number {
+    if (FIRST_TYPES.includes(component.type)) {
+      return 0;
+    }
+    return LAST_TYPES.includes(component.type) ? 2 : 1;
+  }
+
+  /**
+   * The references, plus edges both ways between each object child
+   * ("Invoice__c.Status__c") and its object when the set holds it, so they
+   * deploy together
+   */
+  private static withParentObjects(
+    components: ComponentInfo[],
+    references: Map<ComponentInfo, ComponentInfo[]>
+  ): Map<ComponentInfo, ComponentInfo[]> {
+    const objects = new Map(
+      components
+        .filter((component) => component.type === "CustomObject")
+        .map((component) => [component.name.toLowerCase(), component])
+    );
+
+    const dependencies = new Map<ComponentInfo, ComponentInfo[]>(
+      components.map((component) => [
+        component,
+        (references.get(component) || []).filter((dependency) =>
+          components.includes(dependency)
+        ),
+      ])
+    );
+    const link = (from: ComponentInfo, to: ComponentInfo) => {
+      const edges = dependencies.get(from)!;
+      if (!edges.includes(to)) {
+        edges.push(to);
+      }
+    };
+    for (const component of components) {
+      const parent = component.name.includes(".")
+        ? objects.get(component.name.split(".")[0].toLowerCase())
+        : undefined;
+      if (parent) {
+        link(component, parent);
+        link(parent, component);
+      }
+    }
+    return dependencies;
+  }
+
+  /**
+   * Tarjan's strongly connected components; each group is emitted after the
+   * groups it depends on
+   */
+  private static stronglyConnected(
+    components: ComponentInfo[],
+    dependencies: Map<ComponentInfo, ComponentInfo[]>
+  ): ComponentInfo[][] {
+    const index = new Map<ComponentInfo, number>();
+    const lowLink = new Map<ComponentInfo, number>();
+    const stack: ComponentInfo[] = [];
+    const onStack = new Set<ComponentInfo>();
+    const groups: ComponentInfo[][] = [];
+
+    const visit = (component: ComponentInfo) => {
+      index.set(component, index.size);
+      lowLink.set(component, index.get(component)!);
+      stack.push(component);
+      onStack.add(component);
+
+      for (const dependency of dependencies.get(component) || []) {
+        if (!index.has(dependency)) {
+          visit(dependency);
+          lowLink.set(
+            component,
+            Math.min(lowLink.get(component)!, lowLink.get(dependency)!)
+          );
+        } else if (onStack.has(dependency)) {
+          lowLink.set(
+            component,
+            Math.min(lowLink.get(component)!, index.get(dependency)!)
+          );
+        }
+      }
+
+      if (lowLink.get(component) === index.get(component)) {
+        const group: ComponentInfo[] = [];
+        let member: ComponentInfo;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          group.push(member);
+        } while (member !== component);
+        groups.push(group);
+      }
+    };
+
+    components.forEach((component) => {
+      if (!index.has(component)) {
+        visit(component);
+      }
+    });
+    return groups;
+  }
+}
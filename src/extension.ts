@@ -1,13 +1,28 @@
 import * as vscode from "vscode";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
 import { DeploymentOrchestrator } from "./deployment/orchestrator";
 import { StateManager } from "./utils/stateManager";
 import { CLIExecutor } from "./utils/cliExecutor";
 import { ErrorParser } from "./utils/errorParser";
 import { ComponentLocator } from "./utils/componentLocator";
 import { OAuthHandler } from "./utils/oauthHandler";
+import { RuleRegistry } from "./utils/ruleRegistry";
+import { PackageXmlGenerator } from "./utils/packageXmlGenerator";
+import { DeployResultParser } from "./utils/deployResultParser";
+import { GoldenSuite } from "./regression/goldenSuite";
+import { DependencyAnalyzer } from "./analysis/dependencyAnalyzer";
+import { TestSelector } from "./analysis/testSelector";
+import { DeploymentQueue } from "./deployment/deploymentQueue";
+import { OrgInventory } from "./utils/orgInventory";
 import { ComponentInfo } from "./types";
 
 let orchestrator: DeploymentOrchestrator | undefined;
+let deploymentQueue: DeploymentQueue | undefined;
+
+// Validations can be quick deployed for 10 days
+const QUICK_DEPLOY_WINDOW_MS = 10 * 24 * 60 * 60 * 1000;
 
 export function activate(context: vscode.ExtensionContext) {
   // Extension activated
@@ -19,9 +34,47 @@ export function activate(context: vscode.ExtensionContext) {
   const cliExecutor = new CLIExecutor(outputChannel);
   const workspaceRoot =
     vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || "";
-  const componentLocator = new ComponentLocator(workspaceRoot);
+  const componentLocator = new ComponentLocator(workspaceRoot, outputChannel);
   const oauthHandler = new OAuthHandler(cliExecutor);
-  const errorParser = new ErrorParser(outputChannel);
+  const ruleRegistry = new RuleRegistry(
+    workspaceRoot,
+    outputChannel,
+    (message) => vscode.window.showWarningMessage(message)
+  );
+  const errorParser = new ErrorParser(outputChannel, ruleRegistry);
+  const dependencyAnalyzer = new DependencyAnalyzer(
+    componentLocator,
+    outputChannel
+  );
+  const orgInventory = new OrgInventory(
+    workspaceRoot,
+    componentLocator,
+    outputChannel
+  );
+  const testSelector = new TestSelector(componentLocator, outputChannel);
+
+  // `sf config set target-org` writes the project or global config; listings
+  // cached for "the default org" may describe another org afterwards
+  const orgConfigWatchers = [
+    new vscode.RelativePattern(
+      workspaceRoot,
+      "{.sf/config.json,.sfdx/sfdx-config.json}"
+    ),
+    new vscode.RelativePattern(
+      vscode.Uri.file(path.join(os.homedir(), ".sf")),
+      "config.json"
+    ),
+    new vscode.RelativePattern(
+      vscode.Uri.file(path.join(os.homedir(), ".sfdx")),
+      "sfdx-config.json"
+    ),
+  ].map((pattern) => {
+    const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+    watcher.onDidCreate(() => orgInventory.clear());
+    watcher.onDidChange(() => orgInventory.clear());
+    watcher.onDidDelete(() => orgInventory.clear());
+    return watcher;
+  });
 
   orchestrator = new DeploymentOrchestrator(
     stateManager,
@@ -29,60 +82,157 @@ export function activate(context: vscode.ExtensionContext) {
     errorParser,
     componentLocator,
     oauthHandler,
+    dependencyAnalyzer,
+    orgInventory,
+    testSelector,
     outputChannel
   );
+  // Deploy, validate and quick deploy requests run through the queue, one job at a time
+  deploymentQueue = new DeploymentQueue(
+    stateManager,
+    orchestrator,
+    oauthHandler,
+    outputChannel
+  );
+
+  /**
+   * Components of the explorer selection, or of files picked in a dialog
+   * when run from the command palette; null when there is nothing to deploy
+   */
+  const selectComponents = async (
+    uri: vscode.Uri | undefined,
+    selectedUris: vscode.Uri[] | undefined,
+    openLabel: string
+  ): Promise<ComponentInfo[] | null> => {
+    // The explorer passes the clicked item and, with a multi-selection, every selected item
+    let targets: vscode.Uri[] =
+      selectedUris && selectedUris.length > 0 ? selectedUris : uri ? [uri] : [];
+
+    if (targets.length === 0) {
+      // Deploy from command palette - ask user to select file
+      const fileUri = await vscode.window.showOpenDialog({
+        canSelectFiles: true,
+        canSelectFolders: false,
+        canSelectMany: true,
+        openLabel,
+      });
+
+      if (!fileUri || fileUri.length === 0) {
+        return null;
+      }
+      targets = fileUri;
+    }
+
+    // Files and folders (file/folder selected in the explorer)
+    const components = await componentLocator.collectComponents(
+      targets.map((target) => target.fsPath)
+    );
+
+    if (components.length === 0) {
+      vscode.window.showErrorMessage(
+        "No valid Salesforce components found in selected files"
+      );
+      return null;
+    }
+
+    if (components.length > 1) {
+      outputChannel.appendLine(
+        `Selected ${targets.length} item(s): ${components.length} component(s)`
+      );
+    }
+    return components;
+  };
 
   // Register commands
   const deployCommand = vscode.commands.registerCommand(
     "wormhole.deployComponent",
-    async (uri?: vscode.Uri) => {
-      if (!orchestrator) {
+    async (uri?: vscode.Uri, selectedUris?: vscode.Uri[]) => {
+      if (!deploymentQueue) {
         vscode.window.showErrorMessage("Extension not properly initialized");
         return;
       }
 
-      let components: ComponentInfo[] = [];
-
-      if (uri) {
-        // Deploy from context menu (file/folder selected)
-        const component = await componentLocator.pathToComponent(uri.fsPath);
-        if (component) {
-          components = [component];
-        } else {
-          vscode.window.showErrorMessage(
-            "Could not determine component type from selected file"
-          );
-          return;
-        }
-      } else {
-        // Deploy from command palette - ask user to select file
-        const fileUri = await vscode.window.showOpenDialog({
-          canSelectFiles: true,
-          canSelectFolders: false,
-          canSelectMany: true,
-          openLabel: "Select Component(s) to Deploy",
-        });
-
-        if (!fileUri || fileUri.length === 0) {
-          return;
-        }
-
-        for (const uri of fileUri) {
-          const component = await componentLocator.pathToComponent(uri.fsPath);
-          if (component) {
-            components.push(component);
-          }
-        }
-
-        if (components.length === 0) {
-          vscode.window.showErrorMessage(
-            "No valid Salesforce components found in selected files"
-          );
-          return;
-        }
-      }
-
-      await orchestrator.deployComponents(components);
+      const components = await selectComponents(
+        uri,
+        selectedUris,
+        "Select Component(s) to Deploy"
+      );
+      if (components) {
+        await deploymentQueue.enqueue(components);
+      }
+    }
+  );
+
+  const validateCommand = vscode.commands.registerCommand(
+    "wormhole.validateComponent",
+    async (uri?: vscode.Uri, selectedUris?: vscode.Uri[]) => {
+      if (!deploymentQueue) {
+        vscode.window.showErrorMessage("Extension not properly initialized");
+        return;
+      }
+
+      const components = await selectComponents(
+        uri,
+        selectedUris,
+        "Select Component(s) to Validate"
+      );
+      if (components) {
+        await deploymentQueue.enqueue(components, { dryRun: true });
+      }
+    }
+  );
+
+  const quickDeployCommand = vscode.commands.registerCommand(
+    "wormhole.quickDeploy",
+    async () => {
+      if (!deploymentQueue) {
+        vscode.window.showErrorMessage("Extension not properly initialized");
+        return;
+      }
+
+      // Salesforce keeps a validation quick-deployable for a limited time
+      const oldest = Date.now() - QUICK_DEPLOY_WINDOW_MS;
+      const records = PackageXmlGenerator.listValidationRecords(
+        workspaceRoot
+      ).filter(
+        (record) =>
+          !record.quickDeployedAt &&
+          new Date(record.validatedAt).getTime() >= oldest
+      );
+      if (records.length === 0) {
+        vscode.window.showErrorMessage(
+          "No validations to quick deploy. Run Validate Component (with Auto-Dependencies) first."
+        );
+        return;
+      }
+
+      const pick = await vscode.window.showQuickPick(
+        records.map((record) => ({
+          label: record.deployId,
+          description: `${record.components.length} component(s) · ${
+            record.targetOrg || "default org"
+          }`,
+          detail: `Validated ${new Date(
+            record.validatedAt
+          ).toLocaleString()} · ${path.basename(record.manifestPath)}`,
+          record,
+        })),
+        { placeHolder: "Select the validation to quick deploy" }
+      );
+      if (pick) {
+        await deploymentQueue.enqueueQuickDeploy(pick.record);
+      }
+    }
+  );
+
+  const showQueueCommand = vscode.commands.registerCommand(
+    "wormhole.showDeploymentQueue",
+    async () => {
+      if (!deploymentQueue) {
+        vscode.window.showErrorMessage("Extension not properly initialized");
+        return;
+      }
+      await deploymentQueue.showQueue();
     }
   );
 
@@ -100,11 +250,174 @@ export function activate(context: vscode.ExtensionContext) {
         ignoreFocusOut: true,
       });
 
-      await oauthHandler.authenticate(alias || undefined);
+      if (await oauthHandler.authenticate(alias || undefined)) {
+        // Logging in can set a new default org
+        orgInventory.clear();
+      }
     }
   );
 
-  context.subscriptions.push(deployCommand, authenticateCommand);
+  const testRuleCommand = vscode.commands.registerCommand(
+    "wormhole.testDependencyRule",
+    async () => {
+      const rules = ruleRegistry.getRules();
+      const rulePick = await vscode.window.showQuickPick(
+        [
+          { label: "All rules", description: `${rules.length} rule(s)` },
+          ...rules.map((rule) => ({
+            label: rule.id,
+            description: `${rule.source} → ${rule.type}`,
+            detail: rule.description || rule.pattern.source,
+          })),
+        ],
+        { placeHolder: "Select the dependency rule to test" }
+      );
+      if (!rulePick) {
+        return;
+      }
+
+      const responseFiles =
+        PackageXmlGenerator.listDeploymentResponses(workspaceRoot);
+      if (responseFiles.length === 0) {
+        vscode.window.showErrorMessage(
+          "No saved responses found in .wormhole/responses"
+        );
+        return;
+      }
+
+      const filePick = await vscode.window.showQuickPick(
+        responseFiles.map((file) => ({
+          label: path.basename(file),
+          filePath: file,
+        })),
+        { placeHolder: "Select a saved deployment response" }
+      );
+      if (!filePick) {
+        return;
+      }
+
+      // Test against the component problems when the response is a --json result
+      const content = fs.readFileSync(filePick.filePath, "utf8");
+      const details = DeployResultParser.parse(content);
+      const text = details
+        ? details.componentFailures.map((f) => f.problem || "").join("\n")
+        : content;
+
+      const selectedRules =
+        rulePick.label === "All rules"
+          ? rules
+          : rules.filter((rule) => rule.id === rulePick.label);
+      const matches = ruleRegistry.testRules(text, selectedRules);
+
+      outputChannel.show();
+      outputChannel.appendLine("");
+      outputChannel.appendLine(
+        `🧪 Testing ${rulePick.label} against ${filePick.label}`
+      );
+      if (matches.length === 0) {
+        outputChannel.appendLine("   No lines matched.");
+      }
+      matches.forEach((match) => {
+        outputChannel.appendLine(`   [${match.rule.id}] ${match.line.trim()}`);
+        outputChannel.appendLine(
+          match.component
+            ? `     → ${match.component.type}: ${match.component.name}`
+            : "     → (name rejected)"
+        );
+      });
+      vscode.window.showInformationMessage(
+        `${matches.length} line(s) matched. Check output for details.`
+      );
+    }
+  );
+
+  const promoteFixtureCommand = vscode.commands.registerCommand(
+    "wormhole.promoteResponseToFixture",
+    async () => {
+      const responseFiles =
+        PackageXmlGenerator.listDeploymentResponses(workspaceRoot);
+      if (responseFiles.length === 0) {
+        vscode.window.showErrorMessage(
+          "No saved responses found in .wormhole/responses"
+        );
+        return;
+      }
+
+      const filePick = await vscode.window.showQuickPick(
+        responseFiles.map((file) => ({
+          label: path.basename(file),
+          filePath: file,
+        })),
+        { placeHolder: "Select a saved deployment response to promote" }
+      );
+      if (!filePick) {
+        return;
+      }
+
+      const name = await vscode.window.showInputBox({
+        prompt: "Fixture name",
+        value: path.basename(
+          filePick.filePath,
+          path.extname(filePick.filePath)
+        ),
+        ignoreFocusOut: true,
+      });
+      if (!name) {
+        return;
+      }
+
+      // Record what the parser reports today as the expected output
+      const suite = new GoldenSuite(workspaceRoot);
+      const fixture = suite.createFixture(filePick.filePath, name);
+
+      outputChannel.show();
+      outputChannel.appendLine("");
+      outputChannel.appendLine(`🧷 Expected output for fixture "${name}":`);
+      outputChannel.appendLine(`   success: ${fixture.expected.success}`);
+      outputChannel.appendLine(`   conflict: ${fixture.expected.conflict}`);
+      outputChannel.appendLine(
+        `   categories: ${fixture.expected.categories.join(", ") || "(none)"}`
+      );
+      outputChannel.appendLine("   dependencies:");
+      if (fixture.expected.dependencies.length === 0) {
+        outputChannel.appendLine("     (none)");
+      }
+      fixture.expected.dependencies.forEach((dep) => {
+        outputChannel.appendLine(`     - ${dep.type}: ${dep.name}`);
+      });
+
+      const confirm = await vscode.window.showInformationMessage(
+        `Save "${name}" to the fixture corpus with the expected output shown in the output channel?`,
+        { modal: true },
+        "Save"
+      );
+      if (confirm !== "Save") {
+        return;
+      }
+
+      const fixturePath = suite.saveFixture(fixture);
+      outputChannel.appendLine(`💾 Saved fixture: ${fixturePath}`);
+      vscode.window.showInformationMessage(`Saved fixture ${fixturePath}`);
+    }
+  );
+
+  context.subscriptions.push(
+    deployCommand,
+    validateCommand,
+    quickDeployCommand,
+    showQueueCommand,
+    authenticateCommand,
+    testRuleCommand,
+    promoteFixtureCommand,
+    componentLocator,
+    deploymentQueue,
+    ...orgConfigWatchers
+  );
+
+  // Index the workspace metadata in the background so the first deploy doesn't wait
+  componentLocator.buildIndex().catch((error) => {
+    outputChannel.appendLine(`⚠ Could not index workspace metadata: ${error}`);
+  });
 
   // Verify commands are registered
   vscode.commands.getCommands(true).then((commands) => {
@@ -0,0 +1,195 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  ComponentInfo,
+  DeploymentResult,
+  FailureCategory,
+  GoldenExpectation,
+  GoldenFixture,
+} from "../types";
+import { ErrorParser } from "../utils/errorParser";
+import { OutputHeuristics } from "../utils/outputHeuristics";
+import { RuleRegistry } from "../utils/ruleRegistry";
+
+export interface GoldenCaseResult {
+  filePath: string;
+  fixture: GoldenFixture;
+  actual: GoldenExpectation;
+  differences: string[]; // Empty when the fixture passed
+}
+
+/**
+ * Replays saved CLI responses through the parser and compares the verdicts
+ * with the expected output recorded in each fixture. Uses no VS Code APIs,
+ * so it runs headless (see runGoldenSuite.ts).
+ */
+export class GoldenSuite {
+  private workspaceRoot: string;
+  private fixturesDir: string;
+  private errorParser: ErrorParser;
+
+  constructor(workspaceRoot: string, fixturesDir?: string) {
+    this.workspaceRoot = workspaceRoot;
+    this.fixturesDir =
+      fixturesDir || path.join(workspaceRoot, ".wormhole", "fixtures");
+    // Workspace rules take part, exactly as they do during a deploy
+    this.errorParser = new ErrorParser(
+      undefined,
+      new RuleRegistry(workspaceRoot)
+    );
+  }
+
+  /**
+   * Directory holding the fixture corpus (default: .wormhole/fixtures of the workspace)
+   */
+  public getFixturesDir(): string {
+    return this.fixturesDir;
+  }
+
+  /**
+   * Compute the parser verdicts for a raw CLI response
+   */
+  public evaluate(output: string): GoldenExpectation {
+    const verdict = OutputHeuristics.evaluate(output, "", true);
+    const result: DeploymentResult = {
+      success: verdict.success,
+      output,
+      details: verdict.details || undefined,
+    };
+
+    const dependencies = this.errorParser
+      .parseMissingDependencies(result)
+      .map((dep) => ({ type: dep.type, name: dep.name }))
+      .sort((a, b) => this.componentKey(a).localeCompare(this.componentKey(b)));
+
+    const categories: FailureCategory[] = verdict.success
+      ? []
+      : Array.from(
+          new Set(
+            this.errorParser
+              .classifyFailures(result)
+              .map((failure) => failure.category)
+          )
+        ).sort();
+
+    return {
+      success: verdict.success,
+      conflict: this.errorParser.isConflictError(output),
+      dependencies,
+      categories,
+    };
+  }
+
+  /**
+   * Build a fixture from a saved response, recording the current verdicts as expected
+   */
+  public createFixture(responsePath: string, name: string): GoldenFixture {
+    const output = fs.readFileSync(responsePath, "utf8");
+    return {
+      name,
+      source: path.basename(responsePath),
+      createdAt: new Date().toISOString(),
+      output,
+      expected: this.evaluate(output),
+    };
+  }
+
+  /**
+   * Write a fixture into the corpus and return its path
+   */
+  public saveFixture(fixture: GoldenFixture): string {
+    const fixturesDir = this.getFixturesDir();
+    if (!fs.existsSync(fixturesDir)) {
+      fs.mkdirSync(fixturesDir, { recursive: true });
+    }
+
+    const fileName = `${fixture.name.replace(/[^\w.-]+/g, "-")}.json`;
+    const fixturePath = path.join(fixturesDir, fileName);
+    fs.writeFileSync(
+      fixturePath,
+      JSON.stringify(fixture, null, 2) + "\n",
+      "utf8"
+    );
+    return fixturePath;
+  }
+
+  /**
+   * Run every fixture in the corpus
+   */
+  public run(): GoldenCaseResult[] {
+    const fixturesDir = this.getFixturesDir();
+    if (!fs.existsSync(fixturesDir)) {
+      return [];
+    }
+
+    return fs
+      .readdirSync(fixturesDir)
+      .filter((file) => file.endsWith(".json"))
+      .sort()
+      .map((file) => {
+        const filePath = path.join(fixturesDir, file);
+        const fixture: GoldenFixture = JSON.parse(
+          fs.readFileSync(filePath, "utf8")
+        );
+        const actual = this.evaluate(fixture.output);
+        return {
+          filePath,
+          fixture,
+          actual,
+          differences: this.compare(fixture.expected, actual),
+        };
+      });
+  }
+
+  /**
+   * Describe every difference between expected and actual verdicts
+   */
+  private compare(
+    expected: GoldenExpectation,
+    actual: GoldenExpectation
+  ): string[] {
+    const differences: string[] = [];
+
+    if (expected.success !== actual.success) {
+      differences.push(
+        `success: expected ${expected.success}, got ${actual.success}`
+      );
+    }
+    if (expected.conflict !== actual.conflict) {
+      differences.push(
+        `conflict: expected ${expected.conflict}, got ${actual.conflict}`
+      );
+    }
+
+    const expectedKeys = new Set(
+      expected.dependencies.map((dep) => this.componentKey(dep))
+    );
+    const actualKeys = new Set(
+      actual.dependencies.map((dep) => this.componentKey(dep))
+    );
+    expectedKeys.forEach((key) => {
+      if (!actualKeys.has(key)) {
+        differences.push(`missing dependency: ${key}`);
+      }
+    });
+    actualKeys.forEach((key) => {
+      if (!expectedKeys.has(key)) {
+        differences.push(`unexpected dependency: ${key}`);
+      }
+    });
+
+    const expectedCategories = [...expected.categories].sort().join(", ");
+    const actualCategories = [...actual.categories].sort().join(", ");
+    if (expectedCategories !== actualCategories) {
+      differences.push(
+        `categories: expected [${expectedCategories}], got [${actualCategories}]`
+      );
+    }
+
+    return differences;
+  }
+
+  private componentKey(component: ComponentInfo): string {
+    return `${component.type}:${component.name}`;
+  }
+}
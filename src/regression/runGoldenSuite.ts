@@ -0,0 +1,50 @@
+import * as path from "path";
+import { GoldenSuite } from "./goldenSuite";
+
+/**
+ * Headless entry point: node out/regression/runGoldenSuite.js [workspaceRoot] [fixturesDir]
+ * Replays the fixtures (default: .wormhole/fixtures of the workspace, itself
+ * defaulting to the current directory) and exits with code 1 if any fixture
+ * no longer matches its expected output, or if there are none to run
+ */
+function main(): void {
+  const workspaceRoot = path.resolve(process.argv[2] || process.cwd());
+  const suite = new GoldenSuite(
+    workspaceRoot,
+    process.argv[3] ? path.resolve(process.argv[3]) : undefined
+  );
+  const results = suite.run();
+
+  if (results.length === 0) {
+    // An empty corpus would pass without checking anything
+    console.log(`No fixtures found in ${suite.getFixturesDir()}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  let failed = 0;
+  for (const result of results) {
+    if (result.differences.length === 0) {
+      console.log(`✓ ${result.fixture.name}`);
+      continue;
+    }
+
+    failed++;
+    console.log(`✗ ${result.fixture.name} (${result.filePath})`);
+    result.differences.forEach((difference) => {
+      console.log(`    ${difference}`);
+    });
+  }
+
+  console.log("");
+  console.log(
+    `${results.length - failed} passed, ${failed} failed, ${
+      results.length
+    } total`
+  );
+  if (failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main();
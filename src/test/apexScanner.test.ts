@@ -0,0 +1,92 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { ApexScanner } from "../analysis/apexScanner";
+import { SourceReference } from "../types";
+
+const keys = (references: SourceReference[]) =>
+  references.map((reference) => `${reference.type}:${reference.name}`).sort();
+
+describe("ApexScanner", () => {
+  it("lists SOQL objects and fields, with relationship paths as their lookup field", () => {
+    const references = ApexScanner.scan(`
+      public with sharing class InvoiceSelector {
+        public static List<Invoice__c> open() {
+          return [SELECT Id, Status__c, Account__r.Name FROM Invoice__c WHERE Due_Date__c < TODAY];
+        }
+      }`);
+
+    // Candidates only: names the workspace doesn't define are dropped later
+    for (const key of [
+      "CustomField:Invoice__c.Account__c",
+      "CustomField:Invoice__c.Due_Date__c",
+      "CustomField:Invoice__c.Status__c",
+      "CustomObject:Invoice__c",
+    ]) {
+      assert.ok(keys(references).includes(key), key);
+    }
+  });
+
+  it("reads fields through the declared type of a variable", () => {
+    const references = ApexScanner.scan(`
+      public class InvoiceService {
+        public void close(Invoice__c invoice) {
+          invoice.Closed_On__c = Date.today();
+          Billing_Settings__c settings = Billing_Settings__c.getOrgDefaults();
+        }
+      }`);
+
+    assert.ok(keys(references).includes("CustomField:Invoice__c.Closed_On__c"));
+    assert.ok(keys(references).includes("CustomObject:Billing_Settings__c"));
+  });
+
+  it("lists referenced classes and labels but not the class's own names", () => {
+    const references = ApexScanner.scan(`
+      public class InvoiceController {
+        public class Row {}
+        public String title = System.Label.Invoice_Title;
+        private InvoiceService service = new InvoiceService();
+        public void run() { InvoiceMailer.send(Label.Invoice_Subject); }
+      }`);
+
+    for (const key of [
+      "ApexClass:InvoiceMailer",
+      "ApexClass:InvoiceService",
+      "CustomLabel:Invoice_Subject",
+      "CustomLabel:Invoice_Title",
+    ]) {
+      assert.ok(keys(references).includes(key), key);
+    }
+    for (const key of ["ApexClass:InvoiceController", "ApexClass:Row"]) {
+      assert.ok(!keys(references).includes(key), key);
+    }
+  });
+
+  it("ignores comments and string literals", () => {
+    const references = ApexScanner.scan(`
+      public class Greeter {
+        // Uses LegacyGreeter and Old_Object__c
+        /* InvoiceService.run(); */
+        public String hello() { return 'Hello from Invoice__c'; }
+      }`);
+
+    assert.deepEqual(keys(references), []);
+  });
+
+  it("recognizes test classes and trigger objects", () => {
+    assert.equal(
+      ApexScanner.isTestClass("@IsTest\nprivate class InvoiceServiceTest {}"),
+      true
+    );
+    assert.equal(
+      ApexScanner.isTestClass("// @isTest\npublic class InvoiceService {}"),
+      false
+    );
+    assert.equal(
+      ApexScanner.triggerObject(
+        "trigger InvoiceTrigger on Invoice__c (before insert) {}"
+      ),
+      "Invoice__c"
+    );
+    assert.equal(ApexScanner.triggerObject("public class A {}"), null);
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { DeployResultParser } from "../utils/deployResultParser";
+
+describe("DeployResultParser", () => {
+  it("reads a failed deploy, skipping package.xml and warnings", () => {
+    const details = DeployResultParser.parse(
+      JSON.stringify({
+        status: 1,
+        name: "FailedDeployError",
+        message: "Deploy failed.",
+        data: {
+          id: "0Af000000000001",
+          status: "Failed",
+          success: false,
+          details: {
+            componentSuccesses: { componentType: "", fullName: "package.xml" },
+            // A single entry comes back as an object
+            componentFailures: [
+              {
+                componentType: "ApexClass",
+                fullName: "InvoiceController",
+                problem: "Invalid type: InvoiceService",
+                problemType: "Error",
+                lineNumber: "12",
+                columnNumber: "9",
+              },
+              {
+                componentType: "CustomField",
+                fullName: "Invoice__c.Status__c",
+                problem: "Picklist value is inactive",
+                problemType: "Warning",
+              },
+            ],
+          },
+        },
+      })
+    );
+
+    assert.ok(details);
+    assert.equal(details.deployId, "0Af000000000001");
+    assert.equal(details.success, false);
+    assert.equal(details.errorMessage, "Deploy failed.");
+    assert.deepEqual(details.componentSuccesses, []);
+    assert.deepEqual(DeployResultParser.formatFailures(details), [
+      "ApexClass InvoiceController (12:9): Invalid type: InvoiceService",
+    ]);
+  });
+
+  it("falls back to the files array of older CLI versions", () => {
+    const details = DeployResultParser.parse(
+      JSON.stringify({
+        status: 1,
+        result: {
+          status: "Failed",
+          files: [
+            { type: "ApexClass", fullName: "A", state: "Changed" },
+            {
+              type: "ApexClass",
+              fullName: "B",
+              state: "Failed",
+              error: "Variable does not exist: x",
+              lineNumber: 3,
+              columnNumber: 1,
+            },
+          ],
+        },
+      })
+    );
+
+    assert.ok(details);
+    assert.deepEqual(
+      details.componentFailures.map((failure) => failure.fullName),
+      ["B"]
+    );
+    assert.equal(details.componentFailures[0].lineNumber, 3);
+  });
+
+  it("reads test failures and coverage", () => {
+    const details = DeployResultParser.parse(
+      JSON.stringify({
+        status: 1,
+        result: {
+          status: "Failed",
+          details: {
+            runTestResult: {
+              numTestsRun: "3",
+              numFailures: "1",
+              failures: {
+                name: "InvoiceServiceTest",
+                methodName: "totals",
+                message: "System.AssertException: Assertion Failed",
+                stackTrace:
+                  "Class.InvoiceServiceTest.totals: line 27, column 1",
+              },
+              codeCoverage: [
+                {
+                  name: "InvoiceService",
+                  numLocations: 40,
+                  numLocationsNotCovered: 22,
+                },
+                {
+                  name: "InvoiceTrigger",
+                  type: "Trigger",
+                  numLocations: 10,
+                  numLocationsNotCovered: 1,
+                },
+                { name: "Legacy", numLocations: 10, numLocationsNotCovered: 9 },
+              ],
+            },
+          },
+        },
+      })
+    );
+
+    const testResults = details?.testResults;
+    assert.ok(testResults);
+    assert.equal(testResults.numTestsRun, 3);
+    assert.equal(
+      DeployResultParser.formatTestFailure(testResults.failures[0]),
+      "InvoiceServiceTest.totals (27:1): System.AssertException: Assertion Failed"
+    );
+    assert.deepEqual(
+      DeployResultParser.getUncoveredClasses(testResults).map(
+        (coverage) => `${coverage.name} ${coverage.percent}%`
+      ),
+      ["Legacy 10%", "InvoiceService 45%"]
+    );
+  });
+
+  it("succeeds only when Salesforce reports success", () => {
+    const details = DeployResultParser.parse(
+      'Warning: a newer version of sf is available\n{"status":0,"result":{"status":"Succeeded","success":true,"details":{}}}'
+    );
+
+    assert.equal(details?.success, true);
+  });
+
+  it("reports CLI errors without a deploy result, and ignores text output", () => {
+    const details = DeployResultParser.parse(
+      JSON.stringify({
+        status: 1,
+        name: "NoDefaultEnvError",
+        message: "No default environment found.",
+      })
+    );
+
+    assert.equal(details?.success, false);
+    assert.equal(details?.errorMessage, "No default environment found.");
+    assert.equal(DeployResultParser.parse("Deploy Succeeded."), null);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { ErrorParser } from "../utils/errorParser";
+import { DeploymentResult, DeployResultDetails } from "../types";
+
+const failedDeploy = (
+  details: Partial<DeployResultDetails>
+): DeploymentResult => ({
+  success: false,
+  output: "",
+  details: {
+    status: "Failed",
+    success: false,
+    componentSuccesses: [],
+    componentFailures: [],
+    ...details,
+  },
+});
+
+describe("ErrorParser.classifyFailures", () => {
+  const parser = new ErrorParser();
+
+  it("classifies each component failure", () => {
+    const failures = parser.classifyFailures(
+      failedDeploy({
+        componentFailures: [
+          {
+            componentType: "ApexClass",
+            fullName: "InvoiceController",
+            success: false,
+            problem: "Invalid type: InvoiceService",
+            lineNumber: 12,
+            columnNumber: 9,
+          },
+          {
+            componentType: "ApexClass",
+            fullName: "InvoiceService",
+            success: false,
+            problem:
+              "UNABLE_TO_LOCK_ROW: unable to obtain exclusive access to this record",
+          },
+          {
+            componentType: "ApexClass",
+            fullName: "InvoiceMailer",
+            success: false,
+            problem: "Unexpected token '}'.",
+          },
+          {
+            componentType: "CustomField",
+            fullName: "Invoice__c.Total__c",
+            success: false,
+            problem: "Something nobody has seen before",
+          },
+        ],
+      })
+    );
+
+    assert.deepEqual(
+      failures.map((failure) => [failure.component?.name, failure.category]),
+      [
+        ["InvoiceController", "missingDependency"],
+        ["InvoiceService", "lockContention"],
+        ["InvoiceMailer", "compileError"],
+        ["Invoice__c.Total__c", "unknown"],
+      ]
+    );
+    assert.equal(failures[0].lineNumber, 12);
+  });
+
+  it("reports low coverage only for deployed classes and triggers", () => {
+    const result = failedDeploy({
+      testResults: {
+        numTestsRun: 2,
+        numFailures: 1,
+        failures: [
+          {
+            className: "InvoiceServiceTest",
+            methodName: "totals",
+            message: "Assertion Failed",
+            lineNumber: 27,
+            columnNumber: 1,
+          },
+        ],
+        coverage: [
+          {
+            name: "InvoiceService",
+            type: "Class",
+            numLocations: 40,
+            numLocationsNotCovered: 22,
+            percent: 45,
+          },
+          {
+            name: "InvoiceTrigger",
+            type: "Trigger",
+            numLocations: 10,
+            numLocationsNotCovered: 8,
+            percent: 20,
+          },
+          {
+            name: "Legacy",
+            type: "Class",
+            numLocations: 10,
+            numLocationsNotCovered: 9,
+            percent: 10,
+          },
+        ],
+        coverageWarnings: [],
+      },
+    });
+
+    const failures = parser.classifyFailures(result, [
+      { type: "ApexClass", name: "InvoiceService" },
+      { type: "ApexTrigger", name: "InvoiceTrigger" },
+    ]);
+
+    assert.deepEqual(
+      failures.map(
+        (failure) => `${failure.category} ${failure.component?.name}`
+      ),
+      [
+        "testFailure InvoiceServiceTest",
+        "insufficientCoverage InvoiceTrigger",
+        "insufficientCoverage InvoiceService",
+      ]
+    );
+  });
+
+  it("classifies the error message when no component failed", () => {
+    const failures = parser.classifyFailures(
+      failedDeploy({
+        errorMessage:
+          "There are changes in the org that conflict with the local changes you're trying to deploy.",
+      })
+    );
+
+    assert.deepEqual(
+      failures.map((failure) => failure.category),
+      ["conflict"]
+    );
+  });
+
+  it("classifies recognizable lines of text output, or reports it unrecognized", () => {
+    assert.deepEqual(
+      parser
+        .classifyFailures(
+          "Deploying...\nERROR: INVALID_SESSION_ID: Session expired or invalid\nDone"
+        )
+        .map((failure) => failure.category),
+      ["cliOrAuth"]
+    );
+
+    const [failure] = parser.classifyFailures("Something went wrong");
+    assert.equal(failure.category, "unknown");
+    assert.equal(failure.message, "Something went wrong");
+  });
+});
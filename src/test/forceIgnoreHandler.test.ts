@@ -0,0 +1,34 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ForceIgnoreHandler } from "../utils/forceIgnoreHandler";
+
+describe("ForceIgnoreHandler", () => {
+  it("keeps an exclusion until every job using it has restored", () => {
+    const workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), "wormhole-"));
+    try {
+      const forceIgnorePath = path.join(workspaceRoot, ".forceignore");
+      fs.writeFileSync(forceIgnorePath, "**/jsconfig.json\n");
+      const excluded = path.join(workspaceRoot, "force-app", "drafts");
+      const first = new ForceIgnoreHandler(workspaceRoot);
+      const second = new ForceIgnoreHandler(workspaceRoot);
+
+      first.addExclusion(excluded);
+      second.addExclusion(excluded);
+      assert.equal(first.isIgnored(path.join(excluded, "a.cls")), true);
+
+      first.restore();
+      assert.equal(second.isIgnored(path.join(excluded, "a.cls")), true);
+
+      second.restore();
+      assert.equal(
+        fs.readFileSync(forceIgnorePath, "utf8"),
+        "**/jsconfig.json\n"
+      );
+    } finally {
+      fs.rmSync(workspaceRoot, { recursive: true, force: true });
+    }
+  });
+});
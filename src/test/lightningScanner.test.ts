@@ -0,0 +1,71 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { LightningScanner } from "../analysis/lightningScanner";
+import { SourceReference } from "../types";
+
+const keys = (references: SourceReference[]) =>
+  references.map((reference) => `${reference.type}:${reference.name}`).sort();
+
+describe("LightningScanner", () => {
+  it("reads LWC module imports", () => {
+    const references = LightningScanner.scan(
+      `import { LightningElement, wire } from "lwc";
+      import getInvoices from "@salesforce/apex/InvoiceController.getInvoices";
+      import INVOICE_OBJECT from "@salesforce/schema/Invoice__c";
+      import ACCOUNT_NAME from "@salesforce/schema/Invoice__c.Account__r.Name";
+      import TITLE from "@salesforce/label/c.Invoice_Title";
+      import LOGO from "@salesforce/resourceUrl/BillingLogo";
+      import SELECTED from "@salesforce/messageChannel/Invoice_Selected__c";
+      import { formatAmount } from "c/billingUtils";`,
+      "invoiceList.js"
+    );
+
+    assert.deepEqual(keys(references), [
+      "ApexClass:InvoiceController",
+      "CustomField:Invoice__c.Account__c",
+      "CustomLabel:Invoice_Title",
+      "CustomObject:Invoice__c",
+      "LightningComponentBundle:billingUtils",
+      "LightningMessageChannel:Invoice_Selected",
+      "StaticResource:BillingLogo",
+    ]);
+  });
+
+  it("reads child components from LWC templates", () => {
+    const references = LightningScanner.scan(
+      `<template><c-invoice-row invoice={invoice}></c-invoice-row></template>`,
+      "invoiceList.html"
+    );
+
+    assert.deepEqual(keys(references), ["LightningComponentBundle:invoiceRow"]);
+  });
+
+  it("reads Aura markup references, controllers, labels and resources", () => {
+    const references = LightningScanner.scan(
+      `<aura:component controller="InvoiceController" extends="c:baseCard">
+        <c:invoiceRow label="{!$Label.c.Invoice_Title}" />
+        <ltng:require scripts="{!$Resource.BillingLib}" />
+      </aura:component>`,
+      "invoiceCard.cmp"
+    );
+
+    assert.deepEqual(keys(references), [
+      "ApexClass:InvoiceController",
+      "AuraDefinitionBundle:baseCard",
+      "AuraDefinitionBundle:invoiceRow",
+      "CustomLabel:Invoice_Title",
+      "LightningComponentBundle:baseCard",
+      "LightningComponentBundle:invoiceRow",
+      "StaticResource:BillingLib",
+    ]);
+  });
+
+  it("doesn't read object literals in Aura JavaScript as component references", () => {
+    const references = LightningScanner.scan(
+      `({ init: function (cmp) { var options = {c:1}; cmp.set("v.label", $A.get("$Label.c.Invoice_Title")); } })`,
+      "invoiceCardController.js"
+    );
+
+    assert.deepEqual(keys(references), ["CustomLabel:Invoice_Title"]);
+  });
+});
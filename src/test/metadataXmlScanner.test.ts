@@ -0,0 +1,91 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { MetadataXmlScanner } from "../analysis/metadataXmlScanner";
+import { SourceReference } from "../types";
+
+const keys = (references: SourceReference[]) =>
+  references.map((reference) => `${reference.type}:${reference.name}`).sort();
+
+describe("MetadataXmlScanner", () => {
+  it("reads Apex actions, subflows, record elements and labels of a flow", () => {
+    const references = MetadataXmlScanner.scan(
+      `<Flow>
+        <actionCalls>
+          <actionName>InvoiceActions</actionName>
+          <actionType>apex</actionType>
+        </actionCalls>
+        <actionCalls>
+          <actionName>emailSimple</actionName>
+          <actionType>emailSimple</actionType>
+        </actionCalls>
+        <recordUpdates>
+          <inputAssignments><field>Status__c</field></inputAssignments>
+          <inputAssignments><field>Name</field></inputAssignments>
+          <object>Invoice__c</object>
+        </recordUpdates>
+        <subflows><flowName>Notify_Owner</flowName></subflows>
+        <textTemplates><text>{!$Label.Invoice_Closed}</text></textTemplates>
+      </Flow>`,
+      "Flow",
+      "Close_Invoice"
+    );
+
+    assert.deepEqual(keys(references), [
+      "ApexClass:InvoiceActions",
+      "CustomField:Invoice__c.Status__c",
+      "CustomLabel:Invoice_Closed",
+      "CustomObject:Invoice__c",
+      "Flow:Notify_Owner",
+    ]);
+  });
+
+  it("reads the custom components a permission set grants", () => {
+    const references = MetadataXmlScanner.scan(
+      `<PermissionSet>
+        <classAccesses><apexClass>InvoiceController</apexClass><enabled>true</enabled></classAccesses>
+        <fieldPermissions><editable>true</editable><field>Invoice__c.Status__c</field></fieldPermissions>
+        <fieldPermissions><editable>true</editable><field>Account.Name</field></fieldPermissions>
+        <objectPermissions><object>Invoice__c</object></objectPermissions>
+        <objectPermissions><object>Account</object></objectPermissions>
+        <tabSettings><tab>Invoice__c</tab><visibility>Visible</visibility></tabSettings>
+      </PermissionSet>`,
+      "PermissionSet",
+      "Billing"
+    );
+
+    assert.deepEqual(keys(references), [
+      "ApexClass:InvoiceController",
+      "CustomField:Invoice__c.Status__c",
+      "CustomObject:Invoice__c",
+      "CustomTab:Invoice__c",
+    ]);
+  });
+
+  it("reads a layout's fields, pages and buttons against the object in its name", () => {
+    const references = MetadataXmlScanner.scan(
+      `<Layout>
+        <customButtons>Send_Reminder</customButtons>
+        <layoutSections>
+          <layoutColumns>
+            <layoutItems><field>Status__c</field></layoutItems>
+            <layoutItems><field>Name</field></layoutItems>
+            <layoutItems><page>InvoicePreview</page></layoutItems>
+          </layoutColumns>
+        </layoutSections>
+      </Layout>`,
+      "Layout",
+      "Invoice__c-Invoice Layout"
+    );
+
+    assert.deepEqual(keys(references), [
+      "ApexPage:InvoicePreview",
+      "CustomField:Invoice__c.Status__c",
+      "WebLink:Invoice__c.Send_Reminder",
+    ]);
+  });
+
+  it("only supports flows, permission sets, profiles and layouts", () => {
+    assert.equal(MetadataXmlScanner.supports("Profile"), true);
+    assert.equal(MetadataXmlScanner.supports("ApexClass"), false);
+  });
+});
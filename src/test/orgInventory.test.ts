@@ -0,0 +1,91 @@
+import { describe, it, before, after } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { OrgInventory } from "../utils/orgInventory";
+
+const labels = (...entries: [string, string][]) =>
+  `<?xml version="1.0" encoding="UTF-8"?>
+<CustomLabels xmlns="http://soap.sforce.com/2006/04/metadata">
+${entries
+  .map(
+    ([name, value]) => `    <labels>
+        <fullName>${name}</fullName>
+        <language>en_US</language>
+        <protected>true</protected>
+        <shortDescription>${name}</shortDescription>
+        <value>${value}</value>
+    </labels>`
+  )
+  .join("\n")}
+</CustomLabels>
+`;
+
+describe("OrgInventory.differs", () => {
+  let folder: string;
+  const write = (name: string, content: string) => {
+    const filePath = path.join(folder, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  before(() => {
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), "wormhole-"));
+  });
+
+  after(() => {
+    fs.rmSync(folder, { recursive: true, force: true });
+  });
+
+  it("compares a label with its own element, not the whole labels file", () => {
+    const local = write(
+      "local.labels-meta.xml",
+      labels(["Invoice_Title", "Invoices"], ["Invoice_Empty", "No invoices"])
+    );
+    // A retrieve returns only the requested label, indented its own way
+    const unchanged = write(
+      "unchanged.labels-meta.xml",
+      labels(["Invoice_Title", "Invoices"]).replace(/    /g, "\t")
+    );
+    const edited = write(
+      "edited.labels-meta.xml",
+      labels(["Invoice_Title", "Invoice list"])
+    );
+    const label = { type: "CustomLabel", name: "Invoice_Title" };
+
+    assert.equal(OrgInventory.differs(label, local, unchanged), false);
+    assert.equal(OrgInventory.differs(label, local, edited), true);
+    assert.equal(OrgInventory.differs(label, local, undefined), true);
+  });
+
+  it("compares by name only when the label can't be found in its file", () => {
+    const local = write(
+      "other.labels-meta.xml",
+      labels(["Invoice_Empty", "No invoices"])
+    );
+    const retrieved = write(
+      "retrieved.labels-meta.xml",
+      labels(["Invoice_Title", "Invoices"])
+    );
+
+    assert.equal(
+      OrgInventory.differs(
+        { type: "CustomLabel", name: "Invoice_Title" },
+        local,
+        retrieved
+      ),
+      null
+    );
+  });
+
+  it("compares whole files for other components", () => {
+    const local = write("Invoice.cls", "public class Invoice {}\n");
+    const same = write("same.cls", "public class Invoice {}");
+    const edited = write("edited.cls", "public class Invoice { }");
+    const invoice = { type: "ApexClass", name: "Invoice" };
+
+    assert.equal(OrgInventory.differs(invoice, local, same), false);
+    assert.equal(OrgInventory.differs(invoice, local, edited), true);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { ResolutionPlan } from "../deployment/resolutionPlan";
+
+describe("ResolutionPlan", () => {
+  it("only queues dependencies that are new", () => {
+    const plan = new ResolutionPlan([
+      { type: "ApexClass", name: "InvoiceController" },
+      { type: "CustomField", name: "Invoice__c.Status__c" },
+    ]);
+    plan.markUnresolvable({ type: "ApexClass", name: "Missing" });
+
+    const added = plan.addPending([
+      { type: "ApexClass", name: "InvoiceController" },
+      // A bare field name matches the qualified field in the set
+      { type: "CustomField", name: "Status__c" },
+      { type: "ApexClass", name: "Missing" },
+      // Line numbers the error parser mistook for names
+      { type: "ApexClass", name: "4" },
+      { type: "ApexClass", name: "InvoiceService" },
+    ]);
+
+    assert.deepEqual(added, [{ type: "ApexClass", name: "InvoiceService" }]);
+    assert.deepEqual(plan.takePending(), added);
+    assert.deepEqual(plan.getPending(), []);
+  });
+
+  it("keeps excluded components out until they are pinned", () => {
+    const service = { type: "ApexClass", name: "InvoiceService" };
+    const plan = new ResolutionPlan([]);
+
+    assert.equal(plan.resolve(service, "reported missing"), true);
+    assert.equal(plan.getReason(service), "reported missing");
+    plan.exclude(service);
+    assert.equal(plan.resolve(service, "reported missing"), false);
+    assert.deepEqual(plan.addPending([service]), []);
+
+    plan.pin(service);
+    assert.equal(plan.includes(service), true);
+    assert.equal(plan.getReason(service), "pinned");
+  });
+
+  it("drops pre-flight dependencies nothing references once their referrer is excluded", () => {
+    const controller = { type: "ApexClass", name: "InvoiceController" };
+    const page = { type: "ApexPage", name: "InvoicePage" };
+    const service = { type: "ApexClass", name: "InvoiceService" };
+    const selector = { type: "ApexClass", name: "InvoiceSelector" };
+    const logger = { type: "ApexClass", name: "Logger" };
+    const plan = new ResolutionPlan([controller, page]);
+    plan.resolve(service, "type reference", [controller]);
+    plan.resolve(selector, "type reference", [service]);
+    plan.resolve(logger, "type reference", [service, page]);
+
+    const dropped = plan.exclude(controller);
+
+    assert.deepEqual(dropped, [service, selector]);
+    assert.deepEqual(plan.getComponents(), [page, logger]);
+    // Dropped, not excluded: a failed deploy may still report them
+    assert.equal(plan.resolve(service, "reported missing"), true);
+  });
+
+  it("recognizes a component set that was deployed before, in any order", () => {
+    const a = { type: "ApexClass", name: "A" };
+    const b = { type: "ApexClass", name: "B" };
+    const plan = new ResolutionPlan([a]);
+    plan.resolve(b, "reported missing");
+    assert.equal(plan.hasAttemptedCurrentSet(), false);
+
+    plan.recordAttempt({
+      number: 1,
+      components: [b, a],
+      success: false,
+      categories: ["missingDependency"],
+      missing: [],
+    });
+
+    assert.equal(plan.hasAttemptedCurrentSet(), true);
+  });
+});
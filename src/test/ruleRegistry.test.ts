@@ -0,0 +1,122 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { RuleRegistry } from "../utils/ruleRegistry";
+
+describe("RuleRegistry", () => {
+  it("names the missing component with the built-in rules", () => {
+    const registry = new RuleRegistry();
+    const component = (line: string) => registry.matchLine(line)?.component;
+
+    assert.deepEqual(component("Invalid type: InvoiceService (12:9)"), {
+      type: "ApexClass",
+      name: "InvoiceService",
+    });
+    assert.deepEqual(component("Invalid type: Billing_Config__mdt"), {
+      type: "CustomObject",
+      name: "Billing_Config__mdt",
+    });
+    assert.deepEqual(
+      component("No such column 'Due_Date__c' on entity 'Invoice__c'"),
+      { type: "CustomField", name: "Invoice__c.Due_Date__c" }
+    );
+    assert.deepEqual(
+      component(
+        "Entity of type 'PermissionSet' named 'Billing' cannot be found"
+      ),
+      { type: "PermissionSet", name: "Billing" }
+    );
+    assert.equal(component("Set the label.value before saving"), undefined);
+  });
+
+  it("rejects rules whose flags or groups can't work", () => {
+    const errors = (raw: any) => RuleRegistry.validateRule(raw, 0).errors;
+
+    assert.deepEqual(
+      errors({
+        id: "r",
+        type: "ApexClass",
+        pattern: "Missing (\\w+)",
+        nameGroup: 1,
+      }),
+      []
+    );
+    assert.deepEqual(
+      errors({
+        id: "r",
+        type: "ApexClass",
+        pattern: "Missing (\\w+)",
+        flags: "gi",
+        nameGroup: 1,
+      }),
+      ['rules[0] (r): "flags" must not contain "g" or "y"']
+    );
+    assert.deepEqual(
+      errors({
+        id: "r",
+        type: "ApexClass",
+        pattern: "Missing (\\w+)",
+        nameGroup: 2,
+      }),
+      ['rules[0] (r): "nameGroup" is 2 but the pattern has 1 capture group(s)']
+    );
+    assert.deepEqual(errors("not a rule"), ["rules[0]: must be an object"]);
+  });
+
+  it("tries workspace rules first and lets them replace built-ins by id", () => {
+    const workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), "wormhole-"));
+    try {
+      fs.mkdirSync(path.join(workspaceRoot, ".wormhole"));
+      fs.writeFileSync(
+        path.join(workspaceRoot, ".wormhole", "rules.json"),
+        JSON.stringify({
+          rules: [
+            {
+              id: "apex-invalid-type",
+              type: "ApexClass",
+              pattern: "Invalid type: Billing\\.(\\w+)",
+              nameGroup: 1,
+            },
+            {
+              id: "billing-connector",
+              type: "NamedCredential",
+              pattern: "connector (\\w+) is not configured",
+              nameGroup: 1,
+            },
+            { id: "broken", type: "ApexClass", pattern: "(" },
+          ],
+        })
+      );
+      const messages: string[] = [];
+      const registry = new RuleRegistry(workspaceRoot, undefined, (message) =>
+        messages.push(message)
+      );
+
+      const rules = registry.getRules();
+      assert.deepEqual(
+        rules.slice(0, 2).map((rule) => rule.id),
+        ["apex-invalid-type", "billing-connector"]
+      );
+      assert.equal(
+        rules.filter((rule) => rule.id === "apex-invalid-type").length,
+        1
+      );
+      assert.equal(messages.length, 1);
+      assert.deepEqual(
+        registry
+          .testRules(
+            "Invalid type: Billing.Gateway\nconnector Stripe is not configured"
+          )
+          .map((match) => match.component),
+        [
+          { type: "ApexClass", name: "Gateway" },
+          { type: "NamedCredential", name: "Stripe" },
+        ]
+      );
+    } finally {
+      fs.rmSync(workspaceRoot, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,19 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { StateManager } from "../utils/stateManager";
+
+describe("StateManager.getNextQueuedItem", () => {
+  it("runs one job per org at a time, and jobs for different orgs side by side", () => {
+    const state = new StateManager();
+    const first = state.queueDeployment([], { targetOrg: "dev@acme.com" });
+    const second = state.queueDeployment([], { targetOrg: "dev@acme.com" });
+    const other = state.queueDeployment([], { targetOrg: "qa@acme.com" });
+
+    assert.equal(state.getNextQueuedItem(), first);
+    assert.equal(state.getNextQueuedItem(), other);
+    assert.equal(state.getNextQueuedItem(), undefined);
+
+    state.completeDeployment(first);
+    assert.equal(state.getNextQueuedItem(), second);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { WavePlanner } from "../deployment/wavePlanner";
+import { ComponentInfo } from "../types";
+
+const names = (waves: ComponentInfo[][]) =>
+  waves.map((wave) => wave.map((component) => component.name));
+
+describe("WavePlanner", () => {
+  it("deploys the data model first and triggers, bundles and access last", () => {
+    const permissionSet = { type: "PermissionSet", name: "Billing" };
+    const trigger = { type: "ApexTrigger", name: "InvoiceTrigger" };
+    const service = { type: "ApexClass", name: "InvoiceService" };
+    const object = { type: "CustomObject", name: "Invoice__c" };
+
+    const waves = WavePlanner.plan(
+      [permissionSet, trigger, service, object],
+      new Map()
+    );
+
+    assert.deepEqual(names(waves), [
+      ["Invoice__c"],
+      ["InvoiceService"],
+      ["Billing", "InvoiceTrigger"],
+    ]);
+  });
+
+  it("deploys a class after the classes it references", () => {
+    const controller = { type: "ApexClass", name: "InvoiceController" };
+    const service = { type: "ApexClass", name: "InvoiceService" };
+    const selector = { type: "ApexClass", name: "InvoiceSelector" };
+
+    const waves = WavePlanner.plan(
+      [controller, service, selector],
+      new Map([
+        [controller, [service]],
+        [service, [selector]],
+      ])
+    );
+
+    assert.deepEqual(names(waves), [
+      ["InvoiceSelector"],
+      ["InvoiceService"],
+      ["InvoiceController"],
+    ]);
+  });
+
+  it("keeps components that reference each other in one wave", () => {
+    const a = { type: "ApexClass", name: "A" };
+    const b = { type: "ApexClass", name: "B" };
+    const c = { type: "ApexClass", name: "C" };
+
+    const waves = WavePlanner.plan(
+      [a, b, c],
+      new Map([
+        [a, [b]],
+        [b, [a]],
+        [c, [a]],
+      ])
+    );
+
+    assert.deepEqual(names(waves), [["A", "B"], ["C"]]);
+  });
+
+  it("deploys fields with their object and ignores references outside the set", () => {
+    const field = { type: "CustomField", name: "Invoice__c.Status__c" };
+    const object = { type: "CustomObject", name: "Invoice__c" };
+    const service = { type: "ApexClass", name: "InvoiceService" };
+    const outside = { type: "ApexClass", name: "Logger" };
+
+    const waves = WavePlanner.plan(
+      [field, service, object],
+      new Map([[service, [field, outside]]])
+    );
+
+    assert.deepEqual(names(waves), [
+      ["Invoice__c.Status__c", "Invoice__c"],
+      ["InvoiceService"],
+    ]);
+  });
+});
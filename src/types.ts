@@ -2,6 +2,109 @@ export interface ComponentInfo {
   type: string; // e.g., 'ApexClass', 'ApexTrigger', 'CustomObject', 'CustomField'
   name: string; // e.g., 'MyClass', 'MyTrigger', 'Account.dependent_field__c' (for CustomField)
   filePath?: string; // Full path to the component file
+  packageDirectory?: string; // sfdx-project.json package directory the file belongs to, e.g., 'core'
+  origin?: DependencyOrigin; // Set on dependencies parsed from a failed deployment
+}
+
+/**
+ * A reference found by reading source before deploying
+ * References the workspace doesn't define (standard objects, system classes) are dropped
+ */
+export interface SourceReference {
+  type: string; // Expected metadata type, e.g., 'ApexClass', 'CustomField'
+  name: string; // e.g., 'AccountService', 'Account.Status__c'
+  reason: string; // e.g., 'SOQL field', 'custom label'
+}
+
+/**
+ * A dependency added by pre-flight analysis, and why
+ */
+export interface AnalyzedDependency {
+  component: ComponentInfo;
+  reason: string;
+  referencedBy: ComponentInfo; // The component whose source references it
+  referrers: ComponentInfo[]; // Every analyzed component referencing it, referencedBy first
+}
+
+/**
+ * Project layout: source format (sfdx-project.json, force-app/...) or
+ * Metadata API format (src/package.xml, src/classes/..., objects as single .object files)
+ */
+export type ProjectFormat = "source" | "metadata";
+
+/**
+ * Where a missing dependency was reported: the error line and the failing component
+ * Used to pick the right owner when a name is ambiguous (e.g., a field on several objects)
+ */
+export interface DependencyOrigin {
+  message: string; // The error line that named the dependency
+  componentType?: string; // Failing component, e.g., 'ApexClass'
+  componentName?: string; // e.g., 'MyClass'
+  fileName?: string; // e.g., 'force-app/main/default/classes/MyClass.cls'
+  lineNumber?: number;
+  columnNumber?: number;
+}
+
+/**
+ * A single component message from a --json deploy result
+ * (an entry of details.componentSuccesses or details.componentFailures)
+ */
+export interface DeployComponentMessage {
+  componentType: string; // e.g., 'ApexClass'
+  fullName: string; // e.g., 'MyClass'
+  fileName?: string; // e.g., 'classes/MyClass.cls'
+  success: boolean;
+  problem?: string; // Error text reported by the Metadata API
+  problemType?: string; // 'Error' or 'Warning'
+  lineNumber?: number;
+  columnNumber?: number;
+}
+
+/**
+ * A failing Apex test method from a deploy that ran tests
+ */
+export interface ApexTestFailure {
+  className: string;
+  methodName: string;
+  message: string;
+  stackTrace?: string;
+  lineNumber?: number; // Taken from the first stack trace frame
+  columnNumber?: number;
+}
+
+/**
+ * Code coverage of a single Apex class or trigger
+ */
+export interface ApexCodeCoverage {
+  name: string;
+  type: string; // 'Class' or 'Trigger'
+  numLocations: number;
+  numLocationsNotCovered: number;
+  percent: number; // 0-100, rounded down
+}
+
+/**
+ * Test outcomes and coverage from details.runTestResult
+ */
+export interface ApexTestResults {
+  numTestsRun: number;
+  numFailures: number;
+  failures: ApexTestFailure[];
+  coverage: ApexCodeCoverage[];
+  coverageWarnings: string[]; // e.g., 'Average test coverage across all Apex Classes and Triggers is 62%...'
+}
+
+/**
+ * Typed view of the result returned by `sf project deploy start --json`
+ */
+export interface DeployResultDetails {
+  deployId?: string;
+  status: string; // e.g., 'Succeeded', 'SucceededPartial', 'Failed', 'Canceled'
+  success: boolean;
+  errorMessage?: string; // Top-level CLI error message (e.g., auth or flag problems)
+  componentSuccesses: DeployComponentMessage[];
+  componentFailures: DeployComponentMessage[];
+  testResults?: ApexTestResults; // Present when the deploy ran Apex tests
 }
 
 export interface DeploymentResult {
@@ -9,11 +112,192 @@ export interface DeploymentResult {
   output: string;
   error?: string;
   missingDependencies?: ComponentInfo[];
+  details?: DeployResultDetails; // Present when the command was run with --json
+  cancelled?: boolean; // The user cancelled the command
+}
+
+/**
+ * How a matched rule turns its captured name into a component
+ * - fieldBySuffix: names ending in __c become a CustomField, other custom object
+ *   suffixes (__mdt, __e, ...) a CustomObject, anything else uses the rule type
+ * - objectBySuffix: names with a custom object suffix (__c, __mdt, __e, ...) become
+ *   a CustomObject, anything else uses the rule type
+ */
+export type RuleResolverHint = "fieldBySuffix" | "objectBySuffix";
+
+/**
+ * A missing-dependency rule: a regex whose capture groups name the component
+ */
+export interface DependencyRule {
+  id: string; // Unique rule id, workspace rules with a built-in id replace it
+  pattern: RegExp;
+  type: string; // Metadata type produced by the rule, e.g., 'ApexClass'
+  typeGroup?: number; // Capture group holding the metadata type (overrides type when it matched)
+  nameGroup: number; // Capture group holding the component name
+  objectGroup?: number; // Capture group holding the parent object (prefixes the name as 'Object.Name')
+  resolverHint?: RuleResolverHint;
+  description?: string;
+  source: "builtin" | "workspace";
+}
+
+/**
+ * The result of applying one rule to one line of error text
+ */
+export interface RuleMatch {
+  rule: DependencyRule;
+  line: string;
+  component: ComponentInfo | null; // null when the captured name was rejected (e.g., a line number)
 }
 
+/**
+ * Category of a deployment failure, used to decide how the orchestrator reacts
+ */
+export type FailureCategory =
+  | "missingDependency"
+  | "compileError"
+  | "testFailure"
+  | "insufficientCoverage"
+  | "permission"
+  | "conflict"
+  | "lockContention"
+  | "orgLimit"
+  | "cliOrAuth"
+  | "unknown";
+
+/**
+ * A single deployment failure with its category
+ */
+export interface ClassifiedFailure {
+  category: FailureCategory;
+  message: string;
+  component?: ComponentInfo; // The failing component, when the result names one
+  lineNumber?: number;
+  columnNumber?: number;
+  dependency?: ComponentInfo; // The missing component, for missingDependency failures
+}
+
+/**
+ * Parser verdicts recorded for a golden fixture
+ */
+export interface GoldenExpectation {
+  success: boolean; // Success heuristics / --json status
+  conflict: boolean; // ErrorParser.isConflictError
+  dependencies: ComponentInfo[]; // ErrorParser.parseMissingDependencies, sorted
+  categories: FailureCategory[]; // ErrorParser.classifyFailures, unique and sorted
+}
+
+/**
+ * A saved CLI response with its expected parser output (.wormhole/fixtures/*.json)
+ */
+export interface GoldenFixture {
+  name: string;
+  source?: string; // Response file the fixture was promoted from
+  createdAt?: string;
+  output: string; // Raw CLI output
+  expected: GoldenExpectation;
+}
+
+/**
+ * Apex tests run by a deploy (--test-level)
+ */
+export type TestLevel =
+  | "NoTestRun"
+  | "RunSpecifiedTests"
+  | "RunLocalTests"
+  | "RunAllTestsInOrg";
+
+/**
+ * How a deploy runs
+ */
+export interface DeployOptions {
+  dryRun?: boolean; // Validate only (--dry-run); nothing changes in the org
+  testLevel?: TestLevel; // Org default when not set
+  tests?: string[]; // Test classes for RunSpecifiedTests
+  targetOrg?: string; // Org alias; the default org when not set
+  jobId?: number; // Queue job running the deploy; names its manifest and response files
+}
+
+/**
+ * A successful validation that can be quick deployed, saved next to its
+ * manifest in .wormhole/manifests as <manifest>.validation.json
+ */
+export interface ValidationRecord {
+  deployId: string; // Validated deploy id, the job id of the quick deploy
+  manifestPath: string;
+  targetOrg?: string;
+  validatedAt: string; // ISO timestamp
+  components: ComponentInfo[];
+  testLevel?: TestLevel;
+  tests?: string[];
+  quickDeployId?: string; // Set once the validation was quick deployed
+  quickDeployedAt?: string;
+}
+
+/**
+ * The wave a deploy in waves stopped at
+ */
+export interface FailedWave {
+  number: number; // 1-based, in the order the waves deploy
+  total: number;
+  components: ComponentInfo[];
+}
+
+/**
+ * One deploy run of the resolution engine
+ */
+export interface ResolutionAttempt {
+  number: number; // Attempt number used in response and manifest file names
+  components: ComponentInfo[];
+  success: boolean;
+  deployId?: string;
+  categories: FailureCategory[]; // Unique failure categories, empty on success
+  missing: ComponentInfo[]; // Dependencies the attempt reported missing
+  failedWave?: FailedWave; // Set when a deploy in waves stopped at a wave
+}
+
+/**
+ * How a deployment ended:
+ * - succeeded: the last attempt deployed
+ * - blocked: a failure adding dependencies cannot fix (see STOP_CATEGORIES)
+ * - unresolved: failed, and no reported dependency could be found in the workspace
+ * - noProgress: the same component set would be deployed again
+ * - budgetExhausted: the attempt budget ran out
+ * - notAuthenticated: no org to deploy to
+ * - cancelled: the user cancelled before deploying
+ */
+export type DeploymentStatus =
+  | "succeeded"
+  | "blocked"
+  | "unresolved"
+  | "noProgress"
+  | "budgetExhausted"
+  | "notAuthenticated"
+  | "cancelled";
+
+/**
+ * Result of a deployment returned to the caller
+ */
+export interface DeploymentOutcome {
+  status: DeploymentStatus;
+  dryRun: boolean; // Validation only
+  deployId?: string; // Deploy id of the last attempt
+  components: ComponentInfo[]; // Original components and the dependencies added
+  unresolvable: ComponentInfo[]; // Reported dependencies not found in the workspace
+  attempts: ResolutionAttempt[];
+  failures: ClassifiedFailure[]; // Failures of the last attempt
+}
+
+/**
+ * A deploy, validation or quick deploy waiting for, or holding, the workspace
+ * Jobs run one at a time, in queue order
+ */
 export interface DeploymentQueueItem {
+  id: number;
   components: ComponentInfo[];
-  retryCount: number;
+  options: DeployOptions; // targetOrg is set to the org's username when the job is queued
+  validation?: ValidationRecord; // The validation to quick deploy
+  queuedAt: string; // ISO timestamp
+  status: "pending" | "running";
 }
 
 export interface OrgConfig {
@@ -22,3 +306,9 @@ export interface OrgConfig {
   accessToken?: string;
   instanceUrl?: string;
 }
+
+/**
+ * How dependencies are checked against the target org before they are added:
+ * not at all, by name, or by name and content
+ */
+export type OrgInventoryMode = "off" | "exists" | "compare";
@@ -0,0 +1,223 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import { DependencyOrigin } from "../types";
+import { PromptQueue } from "./promptQueue";
+
+/**
+ * Picks the right owner when a dependency name matches several components,
+ * e.g., a field that exists on many objects or a class defined in two packages.
+ * Uses the error context first, then earlier answers, then asks the user.
+ */
+export class AmbiguityResolver {
+  private outputChannel?: vscode.OutputChannel;
+  // Answers given this session: "CustomField:Status__c" -> "Opportunity"
+  private choices: Map<string, string> = new Map();
+
+  constructor(outputChannel?: vscode.OutputChannel) {
+    this.outputChannel = outputChannel;
+  }
+
+  /**
+   * Choose the object that owns a field
+   * sourceFile is the failing component's file, when it could be located
+   */
+  public async chooseFieldOwner(
+    fieldName: string,
+    objectNames: string[],
+    origin?: DependencyOrigin,
+    sourceFile?: string
+  ): Promise<string | null> {
+    const fromContext = this.inferFieldOwner(
+      fieldName,
+      objectNames,
+      origin,
+      sourceFile
+    );
+    if (fromContext) {
+      this.outputChannel?.appendLine(
+        `  ℹ ${fieldName} exists on ${objectNames.length} objects; using ${fromContext} from the error context`
+      );
+      return fromContext;
+    }
+
+    return this.choose(
+      `CustomField:${fieldName}`,
+      objectNames,
+      `${fieldName} exists on ${objectNames.length} objects - which one is missing?`
+    );
+  }
+
+  /**
+   * Choose the package directory to take a component from
+   * sourcePackage is the package of the failing component, when known
+   */
+  public async choosePackage(
+    type: string,
+    name: string,
+    packageDirectories: string[],
+    sourcePackage?: string
+  ): Promise<string | null> {
+    // A dependency most likely lives next to the component that needs it
+    if (sourcePackage && packageDirectories.includes(sourcePackage)) {
+      this.outputChannel?.appendLine(
+        `  ℹ ${type} ${name} is defined in ${packageDirectories.length} packages; using ${sourcePackage}, the package of the failing component`
+      );
+      return sourcePackage;
+    }
+
+    return this.choose(
+      `${type}:${name}`,
+      packageDirectories,
+      `${type} ${name} is defined in ${packageDirectories.length} packages - which one should be deployed?`
+    );
+  }
+
+  /**
+   * Forget the answers given this session
+   * Called when sfdx-project.json changes and the metadata index is rebuilt
+   */
+  public clear(): void {
+    this.choices.clear();
+  }
+
+  /**
+   * Use an earlier answer or ask the user, remembering the answer for the session
+   */
+  private async choose(
+    key: string,
+    options: string[],
+    placeHolder: string
+  ): Promise<string | null> {
+    const remembered = this.choices.get(key);
+    if (remembered && options.includes(remembered)) {
+      return remembered;
+    }
+
+    const pick = await PromptQueue.run(async () => {
+      // Another job may have answered the same question while this one waited its turn
+      const answered = this.choices.get(key);
+      return answered && options.includes(answered)
+        ? answered
+        : vscode.window.showQuickPick(options, {
+            placeHolder,
+            ignoreFocusOut: true,
+          });
+    });
+    if (!pick) {
+      return null;
+    }
+
+    this.choices.set(key, pick);
+    return pick;
+  }
+
+  /**
+   * Find the field's object in the error message, the failing component or its source
+   */
+  private inferFieldOwner(
+    fieldName: string,
+    objectNames: string[],
+    origin?: DependencyOrigin,
+    sourceFile?: string
+  ): string | null {
+    if (!origin) {
+      return null;
+    }
+    const field = this.escapeRegExp(fieldName);
+
+    // "... on entity 'Opportunity'", "sObject type 'Opportunity'"
+    const entityMatch = origin.message.match(
+      /(?:entity|sObject type)\s+'?(\w+)'?/i
+    );
+    const fromMessage = this.pickCandidate(
+      entityMatch ? [entityMatch[1]] : [],
+      objectNames
+    );
+    if (fromMessage) {
+      return fromMessage;
+    }
+
+    // Object children and layouts carry the object in their name: "Account.My_Rule", "Account-Layout"
+    if (origin.componentName) {
+      const fromComponent = this.pickCandidate(
+        [origin.componentName.split(/[.-]/)[0]],
+        objectNames
+      );
+      if (fromComponent) {
+        return fromComponent;
+      }
+    }
+
+    let content = "";
+    try {
+      content = sourceFile ? fs.readFileSync(sourceFile, "utf8") : "";
+    } catch {
+      content = "";
+    }
+    const lines = content.split("\n");
+    const errorLine =
+      origin.lineNumber !== undefined ? lines[origin.lineNumber - 1] || "" : "";
+
+    // Qualified references anywhere in the source: "Opportunity.Status__c", <field>Opportunity.Status__c</field>
+    const qualified = Array.from(
+      content.matchAll(new RegExp(`\\b(\\w+)\\.${field}\\b`, "gi"))
+    ).map((match) => match[1]);
+    const fromQualified = this.pickCandidate(qualified, objectNames);
+    if (fromQualified) {
+      return fromQualified;
+    }
+
+    // The Apex line: "new Opportunity(Status__c = ...)" or "opp.Status__c" with "Opportunity opp" declared
+    const constructed = Array.from(
+      errorLine.matchAll(/\bnew\s+(\w+)\s*\(/g)
+    ).map((match) => match[1]);
+    const variables = Array.from(
+      errorLine.matchAll(new RegExp(`\\b(\\w+)\\.${field}\\b`, "gi"))
+    ).map((match) => match[1]);
+    const declared = variables.flatMap((variable) =>
+      Array.from(
+        content.matchAll(
+          new RegExp(
+            `\\b(\\w+)(?:\\s*>)?\\s+${this.escapeRegExp(variable)}\\s*[=;:,)]`,
+            "g"
+          )
+        )
+      ).map((match) => match[1])
+    );
+    const fromApexLine = this.pickCandidate(
+      [...constructed, ...declared],
+      objectNames
+    );
+    if (fromApexLine) {
+      return fromApexLine;
+    }
+
+    // SOQL queries that select the field: "SELECT Id, Status__c FROM Opportunity"
+    const queried = Array.from(
+      content.matchAll(/\bSELECT\s+([\s\S]*?)\s+FROM\s+(\w+)/gi)
+    )
+      .filter((match) => new RegExp(`\\b${field}\\b`, "i").test(match[1]))
+      .map((match) => match[2]);
+    return this.pickCandidate(queried, objectNames);
+  }
+
+  /**
+   * The single candidate among the names found, matched case-insensitively
+   */
+  private pickCandidate(names: string[], candidates: string[]): string | null {
+    const found = new Set<string>();
+    for (const name of names) {
+      const candidate = candidates.find(
+        (c) => c.toLowerCase() === name.toLowerCase()
+      );
+      if (candidate) {
+        found.add(candidate);
+      }
+    }
+    return found.size === 1 ? Array.from(found)[0] : null;
+  }
+
+  private escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  }
+}
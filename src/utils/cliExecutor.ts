@@ -1,13 +1,23 @@
 import * as vscode from "vscode";
 import * as fs from "fs";
 import * as path from "path";
-import { exec } from "child_process";
-import { promisify } from "util";
-import { DeploymentResult, ComponentInfo } from "../types";
+import { ChildProcess, exec, spawn } from "child_process";
+import {
+  ApexTestResults,
+  DeploymentResult,
+  ComponentInfo,
+  DeployOptions,
+  DeployResultDetails,
+} from "../types";
 import { PackageXmlGenerator } from "./packageXmlGenerator";
+import { ComponentLocator } from "./componentLocator";
 import { ForceIgnoreHandler } from "./forceIgnoreHandler";
+import { DeployResultParser, COVERAGE_THRESHOLD } from "./deployResultParser";
+import { OutputHeuristics } from "./outputHeuristics";
+import { MetadataRegistry } from "./metadataRegistry";
 
-const execAsync = promisify(exec);
+// How often the progress notification's elapsed time is refreshed during a deploy
+const PROGRESS_INTERVAL_MS = 5000;
 
 export class CLIExecutor {
   private outputChannel: vscode.OutputChannel;
@@ -18,11 +28,13 @@ export class CLIExecutor {
 
   /**
    * Execute Salesforce CLI command
+   * Cancelling the token kills the command and returns a cancelled result
    */
   public async executeCommand(
     command: string,
     args: string[] = [],
-    orgAlias?: string
+    orgAlias?: string,
+    token?: vscode.CancellationToken
   ): Promise<DeploymentResult> {
     const fullCommand = this.buildCommand(command, args, orgAlias);
     const workingDir =
@@ -36,10 +48,7 @@ export class CLIExecutor {
     this.outputChannel.appendLine("");
 
     try {
-      const { stdout, stderr } = await execAsync(fullCommand, {
-        cwd: workingDir,
-        maxBuffer: 10 * 1024 * 1024, // 10MB buffer
-      });
+      const { stdout, stderr } = await this.run(fullCommand, workingDir, token);
 
       const output = stdout + stderr;
 
@@ -53,30 +62,28 @@ export class CLIExecutor {
         this.outputChannel.appendLine(stderr);
       }
 
-      // Check if deployment actually succeeded (even if there's stderr output)
-      const deploymentSucceeded = this.isDeploymentSuccess(output);
+      const verdict = OutputHeuristics.evaluate(
+        stdout,
+        stderr,
+        args.includes("--json")
+      );
+      if (verdict.details) {
+        this.logDeployDetails(verdict.details);
+        return {
+          success: verdict.success,
+          output: output,
+          error: verdict.success ? undefined : output,
+          details: verdict.details,
+        };
+      }
 
-      // Check if this is just a Metadata API finalization error (deployment may have succeeded)
+      const hasErrors = !verdict.success;
       const isMetadataApiFinalizationError =
-        this.isMetadataApiFinalizationError(stderr);
-
-      // Check if there are actual deployment errors (not just validation warnings)
-      // For --metadata deployments, validation errors about unrelated files can occur
-      // but the actual deployment might still succeed
-      const isValidationOnly = this.isValidationWarningOnly(stderr);
-      const hasActualDeploymentErrors = this.hasActualDeploymentErrors(output);
-
-      // If deployment succeeded OR it's just a Metadata API finalization error, don't treat as error
-      // (Metadata API finalization errors often occur even when deployment succeeds)
-      const hasErrors =
-        !deploymentSucceeded &&
-        !isMetadataApiFinalizationError &&
-        (hasActualDeploymentErrors || (stderr.length > 0 && !isValidationOnly));
+        verdict.isMetadataApiFinalizationError;
 
       // Debug: Analyze error type
       if (hasErrors) {
-        const isValidationOnly = this.isValidationWarningOnly(stderr);
-        if (isValidationOnly) {
+        if (verdict.isValidationOnly) {
           this.outputChannel.appendLine(
             "⚠️  Note: This appears to be a validation warning about unrelated files."
           );
@@ -106,6 +113,16 @@ export class CLIExecutor {
       const errorOutput = error.stdout || error.stderr || error.message;
       const exitCode = error.code || "unknown";
 
+      if (token?.isCancellationRequested) {
+        this.outputChannel.appendLine("⏹ Command cancelled");
+        return {
+          success: false,
+          cancelled: true,
+          output: errorOutput,
+          error: "Cancelled by user",
+        };
+      }
+
       this.outputChannel.appendLine("❌ Command Execution Error:");
       this.outputChannel.appendLine(`   Exit Code: ${exitCode}`);
       this.outputChannel.appendLine(`   Error: ${errorOutput}`);
@@ -117,9 +134,31 @@ export class CLIExecutor {
         this.outputChannel.appendLine(`   stderr: ${error.stderr}`);
       }
 
+      // With --json the CLI exits non-zero on failure but still prints the deploy result
+      const details =
+        args.includes("--json") && error.stdout
+          ? DeployResultParser.parse(error.stdout)
+          : null;
+      if (
+        details &&
+        !OutputHeuristics.isMetadataApiFinalizationError(
+          details.errorMessage || ""
+        )
+      ) {
+        this.logDeployDetails(details);
+        return {
+          success: details.success,
+          output: errorOutput,
+          error: details.success ? undefined : errorOutput,
+          details,
+        };
+      }
+
       // Check if this is a Metadata API finalization error (deployment may have succeeded)
       const isMetadataApiFinalizationError =
-        this.isMetadataApiFinalizationError(error.stderr || errorOutput);
+        OutputHeuristics.isMetadataApiFinalizationError(
+          error.stderr || errorOutput
+        );
 
       if (isMetadataApiFinalizationError) {
         this.outputChannel.appendLine("");
@@ -150,7 +189,7 @@ export class CLIExecutor {
       }
 
       // Check if this is just a validation warning
-      const isValidationOnly = this.isValidationWarningOnly(
+      const isValidationOnly = OutputHeuristics.isValidationWarningOnly(
         error.stderr || errorOutput
       );
       if (isValidationOnly) {
@@ -176,8 +215,11 @@ export class CLIExecutor {
   public async deployComponents(
     components: ComponentInfo[],
     orgAlias?: string,
-    componentLocator?: any, // ComponentLocator instance
-    attemptNumber?: number // Attempt number for file naming
+    componentLocator?: ComponentLocator,
+    attemptNumber?: number, // Attempt number for file naming
+    options: DeployOptions = {},
+    progress?: vscode.Progress<{ message?: string }>,
+    token?: vscode.CancellationToken
   ): Promise<DeploymentResult> {
     const workspaceRoot =
       vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || "";
@@ -204,6 +246,11 @@ export class CLIExecutor {
         if (component.filePath) {
           this.outputChannel.appendLine(`     File: ${component.filePath}`);
         }
+        if (component.packageDirectory) {
+          this.outputChannel.appendLine(
+            `     Package: ${component.packageDirectory}`
+          );
+        }
       });
       this.outputChannel.appendLine("");
 
@@ -220,14 +267,21 @@ export class CLIExecutor {
         "conversationMessageDefinitions"
       );
 
+      // Metadata API format projects deploy a package directory instead of source
+      const metadataRoot = componentLocator
+        ? componentLocator.getMetadataRoot()
+        : null;
+
       // Add conversationMessageDefinitions to .forceignore
-      this.outputChannel.appendLine(
-        "🔧 Updating .forceignore to exclude conversationMessageDefinitions..."
-      );
-      forceIgnoreHandler.addExclusion(
-        conversationMsgDefsPath,
-        this.outputChannel
-      );
+      if (!metadataRoot) {
+        this.outputChannel.appendLine(
+          "🔧 Updating .forceignore to exclude conversationMessageDefinitions..."
+        );
+        forceIgnoreHandler.addExclusion(
+          conversationMsgDefsPath,
+          this.outputChannel
+        );
+      }
 
       try {
         // Generate package.xml (saved permanently with timestamp)
@@ -236,7 +290,9 @@ export class CLIExecutor {
           workspaceRoot,
           undefined,
           this.outputChannel,
-          currentAttempt
+          currentAttempt,
+          metadataRoot,
+          options.jobId
         );
 
         this.outputChannel.appendLine(
@@ -270,49 +326,139 @@ export class CLIExecutor {
           );
         }
 
-        const args: string[] = [
-          "--manifest",
-          tempPackageXmlPath,
-          "--ignore-conflicts", // Overwrite remote changes if there are conflicts
-        ];
+        // Metadata API format: copy the components into a directory next to the manifest
+        const args: string[] =
+          metadataRoot && componentLocator
+            ? [
+                "--metadata-dir",
+                await this.createMetadataDeployDir(
+                  components,
+                  componentLocator,
+                  tempPackageXmlPath,
+                  metadataRoot,
+                  workspaceRoot,
+                  currentAttempt,
+                  options.jobId
+                ),
+              ]
+            : [
+                "--manifest",
+                tempPackageXmlPath,
+                "--ignore-conflicts", // Overwrite remote changes if there are conflicts
+              ];
+        args.push("--json"); // Structured result instead of the human-readable table
+        if (options.dryRun) {
+          args.push("--dry-run"); // Validate only, nothing is saved in the org
+        }
+        if (options.testLevel) {
+          args.push("--test-level", options.testLevel);
+          for (const test of options.tests || []) {
+            args.push("--tests", test);
+          }
+          const testsPath = PackageXmlGenerator.saveTestSelection(
+            tempPackageXmlPath,
+            options.testLevel,
+            options.tests || []
+          );
+          this.outputChannel.appendLine(`🧪 Test level: ${options.testLevel}`);
+          this.outputChannel.appendLine(`   Tests recorded: ${testsPath}`);
+        }
 
         if (orgAlias) {
           args.push("--target-org", orgAlias);
         }
 
-        this.outputChannel.appendLine("🚀 Starting deployment to Salesforce...");
+        this.outputChannel.appendLine(
+          options.dryRun
+            ? "🚀 Starting validation (dry run) against Salesforce..."
+            : "🚀 Starting deployment to Salesforce..."
+        );
         this.outputChannel.appendLine(`   Command: sf project deploy start`);
         this.outputChannel.appendLine(`   Arguments: ${args.join(" ")}`);
         this.outputChannel.appendLine("");
 
-        const result = await this.executeCommand(
-          "sf project deploy start",
-          args,
-          orgAlias
-        );
+        // Cancelled while the manifest was being generated: nothing to stop in the org
+        if (token?.isCancellationRequested) {
+          forceIgnoreHandler.restore(this.outputChannel);
+          this.outputChannel.appendLine(
+            "⏹ Cancelled before the deploy started"
+          );
+          return {
+            success: false,
+            cancelled: true,
+            output: "",
+            error: "Cancelled by user",
+          };
+        }
+
+        // The CLI polls the deploy until it finishes; show how long that has taken
+        const phase = `Attempt ${currentAttempt}: ${
+          options.dryRun ? "validating" : "deploying"
+        } ${components.length} component(s)`;
+        const startedAt = Date.now();
+        progress?.report({ message: phase });
+        const timer = setInterval(() => {
+          const seconds = Math.round((Date.now() - startedAt) / 1000);
+          progress?.report({
+            message: `${phase}, polling deploy status (${seconds}s)`,
+          });
+        }, PROGRESS_INTERVAL_MS);
+
+        let result: DeploymentResult;
+        try {
+          result = await this.startAndWait(
+            "sf project deploy start",
+            args,
+            orgAlias,
+            token
+          );
+        } finally {
+          clearInterval(timer);
+        }
 
         // Restore .forceignore after deployment
         forceIgnoreHandler.restore(this.outputChannel);
 
+        if (result.cancelled) {
+          return result;
+        }
+
         // Save deployment response to file
         const responsePath = PackageXmlGenerator.saveDeploymentResponse(
           result.output,
           workspaceRoot,
           currentAttempt,
-          result.success
+          result.success,
+          options.jobId
         );
         this.outputChannel.appendLine("");
         this.outputChannel.appendLine(`💾 Saved deployment response: ${responsePath}`);
 
+        // A successful validation can be quick deployed later
+        if (options.dryRun && result.success && result.details?.deployId) {
+          const recordPath = PackageXmlGenerator.saveValidationRecord({
+            deployId: result.details.deployId,
+            manifestPath: tempPackageXmlPath,
+            targetOrg: orgAlias,
+            validatedAt: new Date().toISOString(),
+            components: components.map((c) => ({ type: c.type, name: c.name })),
+            testLevel: options.testLevel,
+            tests: options.tests,
+          });
+          this.outputChannel.appendLine(
+            `🔖 Saved validation ${result.details.deployId}: ${recordPath}`
+          );
+        }
+
         // Debug: Show result summary
         this.outputChannel.appendLine("");
         this.outputChannel.appendLine(
           "━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━"
         );
         this.outputChannel.appendLine(
-          result.success
-            ? "✅ DEPLOYMENT RESULT: SUCCESS"
-            : "❌ DEPLOYMENT RESULT: FAILED"
+          `${result.success ? "✅" : "❌"} ${
+            options.dryRun ? "VALIDATION" : "DEPLOYMENT"
+          } RESULT: ${result.success ? "SUCCESS" : "FAILED"}`
         );
         this.outputChannel.appendLine(
           "━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━"
@@ -343,171 +489,329 @@ export class CLIExecutor {
   }
 
   /**
-   * Convert component info to metadata flag format
-   * e.g., ApexClass:MyClass
+   * Quick deploy a validated deploy id (sf project deploy quick)
    */
-  private getMetadataFlag(component: ComponentInfo): string | null {
-    // Map component types to Salesforce metadata type names
-    const metadataTypeMap: { [key: string]: string } = {
-      ApexClass: "ApexClass",
-      ApexTrigger: "ApexTrigger",
-      CustomObject: "CustomObject",
-      LightningComponentBundle: "LightningComponentBundle",
-      AuraDefinitionBundle: "AuraDefinitionBundle",
-    };
+  public async quickDeploy(
+    deployId: string,
+    orgAlias?: string,
+    attemptNumber?: number,
+    token?: vscode.CancellationToken,
+    jobId?: number
+  ): Promise<DeploymentResult> {
+    const workspaceRoot =
+      vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || "";
+    const args = ["--job-id", deployId, "--json"];
+    if (orgAlias) {
+      args.push("--target-org", orgAlias);
+    }
 
-    const metadataType = metadataTypeMap[component.type] || component.type;
+    this.outputChannel.appendLine(
+      `🚀 Quick deploying validation ${deployId}...`
+    );
+    const result = await this.startAndWait(
+      "sf project deploy quick",
+      args,
+      orgAlias,
+      token
+    );
+    if (result.cancelled) {
+      return result;
+    }
 
-    // Format: MetadataType:ComponentName
-    return `${metadataType}:${component.name}`;
+    const responsePath = PackageXmlGenerator.saveDeploymentResponse(
+      result.output,
+      workspaceRoot,
+      attemptNumber,
+      result.success,
+      jobId
+    );
+    this.outputChannel.appendLine(
+      `💾 Saved deployment response: ${responsePath}`
+    );
+    return result;
   }
 
   /**
-   * Authenticate to Salesforce org
+   * Start a deploy with --async and wait for it with `sf project deploy resume`,
+   * so a cancel stops this deploy by its id
+   * The start returns as soon as Salesforce queues the deploy, so only the wait is cancellable
    */
-  public async authenticateOrg(
-    alias?: string,
-    instanceUrl?: string
+  private async startAndWait(
+    command: string,
+    args: string[],
+    orgAlias?: string,
+    token?: vscode.CancellationToken
   ): Promise<DeploymentResult> {
-    const args = ["--set-default"];
+    const started = await this.executeCommand(
+      command,
+      [...args, "--async"],
+      orgAlias
+    );
+    const jobId = started.details?.deployId;
+    if (!jobId) {
+      // Rejected before a deploy was queued (flags, authentication)
+      return started;
+    }
 
-    if (alias) {
-      args.push("--alias", alias);
+    const result = token?.isCancellationRequested
+      ? {
+          success: false,
+          cancelled: true,
+          output: started.output,
+          error: "Cancelled by user",
+        }
+      : await this.executeCommand(
+          "sf project deploy resume",
+          ["--job-id", jobId, "--json"],
+          orgAlias,
+          token
+        );
+    if (result.cancelled) {
+      await this.cancelDeploy(jobId, orgAlias);
     }
+    return result;
+  }
 
-    if (instanceUrl) {
-      args.push("--instance-url", instanceUrl);
+  /**
+   * Cancel a deploy by its id, after the command waiting on it was killed
+   * Returns true if Salesforce accepted the cancel
+   */
+  public async cancelDeploy(
+    jobId: string,
+    orgAlias?: string
+  ): Promise<boolean> {
+    const args = ["--job-id", jobId, "--json"];
+    if (orgAlias) {
+      args.push("--target-org", orgAlias);
     }
 
-    return this.executeCommand("sf org login web", args);
+    this.outputChannel.appendLine(
+      `⏹ Cancelling deploy ${jobId} in Salesforce...`
+    );
+    const result = await this.executeCommand(
+      "sf project deploy cancel",
+      args,
+      orgAlias
+    );
+    // The cancel reports the deploy it stopped, which did not succeed
+    const cancelled = /^Cancel(ed|ing)$/.test(result.details?.status || "");
+    this.outputChannel.appendLine(
+      cancelled
+        ? "✓ Deploy cancelled in Salesforce"
+        : "⚠ Salesforce did not cancel the deploy; it may have finished already"
+    );
+    return cancelled;
   }
 
   /**
-   * Build full command string
+   * Run a command, killing it and the processes it started when the token is cancelled
+   * Failures reject with the exit code, stdout and stderr like a promisified exec
    */
-  private buildCommand(
+  private run(
     command: string,
-    args: string[],
-    orgAlias?: string
-  ): string {
-    let fullCommand = command;
+    cwd: string,
+    token?: vscode.CancellationToken
+  ): Promise<{ stdout: string; stderr: string }> {
+    return new Promise((resolve, reject) => {
+      if (token?.isCancellationRequested) {
+        reject(new Error("Cancelled before the command started"));
+        return;
+      }
 
-    if (args.length > 0) {
-      fullCommand += " " + args.join(" ");
-    }
+      // Own process group, so cancelling reaches sf and not only its shell
+      const child = spawn(command, {
+        cwd,
+        shell: true,
+        detached: process.platform !== "win32",
+      });
+      let stdout = "";
+      let stderr = "";
+      child.stdout?.setEncoding("utf8").on("data", (data) => (stdout += data));
+      child.stderr?.setEncoding("utf8").on("data", (data) => (stderr += data));
+      child.on("error", (error) => {
+        subscription?.dispose();
+        reject(Object.assign(error, { stdout, stderr }));
+      });
+      child.on("close", (code, signal) => {
+        subscription?.dispose();
+        if (code === 0) {
+          resolve({ stdout, stderr });
+        } else {
+          const error = new Error(
+            `Command failed: ${command}${signal ? ` (${signal})` : ""}`
+          );
+          reject(Object.assign(error, { code, stdout, stderr }));
+        }
+      });
+      const subscription = token?.onCancellationRequested(() =>
+        this.killProcessTree(child)
+      );
+    });
+  }
 
-    return fullCommand;
+  private killProcessTree(child: ChildProcess): void {
+    if (child.pid === undefined || child.exitCode !== null) {
+      return;
+    }
+    try {
+      if (process.platform === "win32") {
+        exec(`taskkill /pid ${child.pid} /T /F`);
+      } else {
+        process.kill(-child.pid, "SIGTERM");
+      }
+    } catch {
+      child.kill();
+    }
   }
 
   /**
-   * Check if output contains error keywords
+   * Build the --metadata-dir directory for a Metadata API format project
    */
-  private hasErrorKeywords(output: string): boolean {
-    const errorKeywords = [
-      "ERROR",
-      "FAILED",
-      "Error:",
-      "deployment failed",
-      "Deployment Failed",
-      "does not exist",
-      "Invalid",
-    ];
-
-    const lowerOutput = output.toLowerCase();
-    return errorKeywords.some((keyword) =>
-      lowerOutput.includes(keyword.toLowerCase())
+  private async createMetadataDeployDir(
+    components: ComponentInfo[],
+    componentLocator: ComponentLocator,
+    manifestPath: string,
+    metadataRoot: string,
+    workspaceRoot: string,
+    attemptNumber: number,
+    jobId?: number
+  ): Promise<string> {
+    const files: string[] = [];
+    for (const component of components) {
+      files.push(...(await componentLocator.getComponentFiles(component)));
+    }
+
+    const deployDir = PackageXmlGenerator.createMetadataDeployDir(
+      manifestPath,
+      files,
+      metadataRoot,
+      workspaceRoot,
+      attemptNumber,
+      jobId
+    );
+    this.outputChannel.appendLine(
+      `📁 Metadata API format project - deploying directory: ${deployDir}`
     );
+    return deployDir;
   }
 
   /**
-   * Check if stderr contains only validation warnings (not actual deployment errors)
-   * Validation warnings about unrelated files can be ignored
+   * Log a summary of a structured deploy result
    */
-  private isValidationWarningOnly(stderr: string): boolean {
-    const validationWarningPatterns = [
-      "Could not infer a metadata type",
-      "Did you mean",
-      "metadata type lookup",
-      "Additional suggestions",
-      "Validate against the registry",
-      "cannot also be provided when using", // Flag conflicts
-    ];
-
-    const lowerStderr = stderr.toLowerCase();
-    const hasValidationWarning = validationWarningPatterns.some((pattern) =>
-      lowerStderr.includes(pattern.toLowerCase())
+  private logDeployDetails(details: DeployResultDetails): void {
+    this.outputChannel.appendLine("");
+    this.outputChannel.appendLine("📊 Deploy Result:");
+    if (details.deployId) {
+      this.outputChannel.appendLine(`   Deploy ID: ${details.deployId}`);
+    }
+    this.outputChannel.appendLine(`   Status: ${details.status}`);
+    this.outputChannel.appendLine(
+      `   Components succeeded: ${details.componentSuccesses.length}`
+    );
+    this.outputChannel.appendLine(
+      `   Components failed: ${details.componentFailures.length}`
     );
+    if (details.errorMessage) {
+      this.outputChannel.appendLine(`   Message: ${details.errorMessage}`);
+    }
 
-    return hasValidationWarning;
+    DeployResultParser.formatFailures(details).forEach((line) => {
+      this.outputChannel.appendLine(`   ❌ ${line}`);
+    });
+    this.outputChannel.appendLine("");
+
+    if (details.testResults) {
+      this.logTestResults(details.testResults);
+    }
   }
 
   /**
-   * Check if deployment actually succeeded
+   * Log Apex test outcomes and classes below the coverage threshold
    */
-  private isDeploymentSuccess(output: string): boolean {
-    const successPatterns = [
-      "status: succeeded",
-      "status:succeeded",
-      "succeeded |",
-      "state.*created",
-      "state.*unchanged",
-      "deployed source",
-      "deployment succeeded",
-      "deployed successfully",
-    ];
-
-    const lowerOutput = output.toLowerCase();
-    return successPatterns.some((pattern) => {
-      const regex = new RegExp(pattern, "i");
-      return regex.test(lowerOutput);
+  private logTestResults(testResults: ApexTestResults): void {
+    this.outputChannel.appendLine("🧪 Apex Test Results:");
+    this.outputChannel.appendLine(
+      `   Tests run: ${testResults.numTestsRun}, failures: ${testResults.numFailures}`
+    );
+
+    testResults.failures.forEach((failure) => {
+      this.outputChannel.appendLine(
+        `   ❌ ${DeployResultParser.formatTestFailure(failure)}`
+      );
+      if (failure.stackTrace) {
+        failure.stackTrace
+          .split("\n")
+          .filter((frame) => frame.trim())
+          .forEach((frame) =>
+            this.outputChannel.appendLine(`        at ${frame.trim()}`)
+          );
+      }
+    });
+
+    const uncovered = DeployResultParser.getUncoveredClasses(testResults);
+    if (uncovered.length > 0) {
+      this.outputChannel.appendLine(
+        `   Classes below ${COVERAGE_THRESHOLD}% coverage:`
+      );
+      uncovered.forEach((coverage) => {
+        this.outputChannel.appendLine(
+          `   ⚠ ${coverage.type} ${coverage.name}: ${coverage.percent}% (${coverage.numLocationsNotCovered} of ${coverage.numLocations} lines not covered)`
+        );
+      });
+    }
+
+    testResults.coverageWarnings.forEach((warning) => {
+      this.outputChannel.appendLine(`   ⚠ ${warning}`);
     });
+    this.outputChannel.appendLine("");
   }
 
   /**
-   * Check if stderr contains only Metadata API finalization error
-   * This error often occurs even when deployment succeeds
+   * Convert component info to metadata flag format
+   * e.g., ApexClass:MyClass
    */
-  private isMetadataApiFinalizationError(stderr: string): boolean {
-    const finalizationErrorPatterns = [
-      "Missing message metadata.transfer:Finalizing",
-      "Metadata API request failed.*Finalizing",
-    ];
-
-    const lowerStderr = stderr.toLowerCase();
-    const hasFinalizationError = finalizationErrorPatterns.some((pattern) => {
-      const regex = new RegExp(pattern, "i");
-      return regex.test(lowerStderr);
-    });
+  private getMetadataFlag(component: ComponentInfo): string | null {
+    // Map component types to Salesforce metadata type names
+    const metadataType = MetadataRegistry.getTypeName(component.type);
+
+    // Format: MetadataType:ComponentName
+    return `${metadataType}:${component.name}`;
+  }
+
+  /**
+   * Authenticate to Salesforce org
+   */
+  public async authenticateOrg(
+    alias?: string,
+    instanceUrl?: string
+  ): Promise<DeploymentResult> {
+    const args = ["--set-default"];
+
+    if (alias) {
+      args.push("--alias", alias);
+    }
 
-    // Only treat as finalization error if there are no actual component failures
-    const hasComponentFailures =
-      lowerStderr.includes("component failures") ||
-      lowerStderr.includes("componentfailures");
+    if (instanceUrl) {
+      args.push("--instance-url", instanceUrl);
+    }
 
-    return hasFinalizationError && !hasComponentFailures;
+    return this.executeCommand("sf org login web", args);
   }
 
   /**
-   * Check if output contains actual deployment errors (not just validation warnings)
+   * Build full command string
    */
-  private hasActualDeploymentErrors(output: string): boolean {
-    const actualErrorPatterns = [
-      "component failures",
-      "deployment failed",
-      "failed to deploy",
-      "component deployment error",
-      "does not exist", // Missing dependency
-      "compilation failed",
-      "test failures",
-      "invalid type:", // Dependency error
-    ];
-
-    const lowerOutput = output.toLowerCase();
-    const hasActualError = actualErrorPatterns.some((pattern) =>
-      lowerOutput.includes(pattern.toLowerCase())
-    );
+  private buildCommand(
+    command: string,
+    args: string[],
+    orgAlias?: string
+  ): string {
+    let fullCommand = command;
 
-    // If we see success indicators, it's not an actual error
-    return hasActualError && !this.isDeploymentSuccess(output);
+    if (args.length > 0) {
+      fullCommand += " " + args.join(" ");
+    }
+
+    return fullCommand;
   }
 }
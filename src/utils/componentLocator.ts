@@ -1,125 +1,427 @@
 import * as vscode from "vscode";
+import * as fs from "fs";
 import * as path from "path";
-import { ComponentInfo } from "../types";
+import { ComponentInfo, DependencyOrigin, ProjectFormat } from "../types";
+import { AmbiguityResolver } from "./ambiguityResolver";
+import { ForceIgnoreHandler } from "./forceIgnoreHandler";
+import { IndexedComponent, MetadataIndex } from "./metadataIndex";
+import { MetadataRegistry } from "./metadataRegistry";
+
+// Error messages often name these types loosely, so a name is tried as each of them;
+// every other type is looked up by its own type only
+const LOOSELY_NAMED_TYPES = [
+  "ApexClass",
+  "ApexTrigger",
+  "CustomObject",
+  "LightningComponentBundle",
+  "AuraDefinitionBundle",
+];
 
 export class ComponentLocator {
   private workspaceRoot: string;
+  private packageDirectories: string[] = [];
+  private projectMtime: number | null = null;
+  private metadataRoot: string | null | undefined; // undefined until detected
+  private index: MetadataIndex;
+  private ambiguityResolver: AmbiguityResolver;
 
-  constructor(workspaceRoot: string) {
+  constructor(workspaceRoot: string, outputChannel?: vscode.OutputChannel) {
     this.workspaceRoot = workspaceRoot;
+    this.ambiguityResolver = new AmbiguityResolver(outputChannel);
+    this.index = new MetadataIndex(
+      workspaceRoot,
+      (filePath) => this.describeFile(filePath),
+      () => this.getPackageDirectories(),
+      outputChannel
+    );
+    // Answers name package directories and components that may no longer exist
+    this.index.onInvalidate(() => this.ambiguityResolver.clear());
+  }
+
+  /**
+   * Build the metadata index ahead of the first lookup
+   */
+  public async buildIndex(): Promise<void> {
+    await this.index.ensureBuilt();
+  }
+
+  public dispose(): void {
+    this.index.dispose();
+  }
+
+  /**
+   * Detect whether the workspace is in source format (sfdx-project.json)
+   * or Metadata API format (a folder holding package.xml and type folders, e.g., src/)
+   */
+  public getProjectFormat(): ProjectFormat {
+    return this.getMetadataRoot() ? "metadata" : "source";
+  }
+
+  /**
+   * Folder holding package.xml in a Metadata API format project, otherwise null
+   */
+  public getMetadataRoot(): string | null {
+    if (this.metadataRoot !== undefined) {
+      return this.metadataRoot;
+    }
+
+    this.metadataRoot = null;
+    if (fs.existsSync(path.join(this.workspaceRoot, "sfdx-project.json"))) {
+      return this.metadataRoot;
+    }
+
+    // package.xml in the workspace root or a top-level folder, next to type folders
+    let candidates: string[] = [this.workspaceRoot];
+    try {
+      candidates = candidates.concat(
+        fs
+          .readdirSync(this.workspaceRoot, { withFileTypes: true })
+          .filter(
+            (entry) =>
+              entry.isDirectory() &&
+              !entry.name.startsWith(".") &&
+              entry.name !== "node_modules"
+          )
+          .map((entry) => path.join(this.workspaceRoot, entry.name))
+      );
+    } catch {
+      // Unreadable workspace - treat as source format
+    }
+
+    this.metadataRoot =
+      candidates.find(
+        (dir) =>
+          fs.existsSync(path.join(dir, "package.xml")) &&
+          fs
+            .readdirSync(dir)
+            .some((entry) => !!MetadataRegistry.getTypeByDirectory(entry))
+      ) || null;
+    return this.metadataRoot;
+  }
+
+  /**
+   * Get the packageDirectories declared in sfdx-project.json, default package first
+   * In a Metadata API format project, the folder holding package.xml
+   * Returns an empty list when neither is found
+   */
+  public getPackageDirectories(): string[] {
+    const projectPath = path.join(this.workspaceRoot, "sfdx-project.json");
+    const metadataRoot = this.getMetadataRoot();
+    if (metadataRoot) {
+      const relativeRoot = path
+        .relative(this.workspaceRoot, metadataRoot)
+        .replace(/\\/g, "/");
+      return relativeRoot ? [relativeRoot] : [];
+    }
+
+    let mtime: number | null = null;
+    try {
+      mtime = fs.statSync(projectPath).mtimeMs;
+    } catch {
+      mtime = null;
+    }
+
+    if (mtime === this.projectMtime) {
+      return this.packageDirectories;
+    }
+    this.projectMtime = mtime;
+    this.packageDirectories = [];
+
+    if (mtime === null) {
+      return this.packageDirectories;
+    }
+
+    try {
+      const project = JSON.parse(fs.readFileSync(projectPath, "utf8"));
+      const declared: { path: string; default?: boolean }[] = Array.isArray(
+        project.packageDirectories
+      )
+        ? project.packageDirectories.filter(
+            (dir: any) => dir && typeof dir.path === "string"
+          )
+        : [];
+
+      // Default package first, the rest in declared order
+      this.packageDirectories = [
+        ...declared.filter((dir) => dir.default),
+        ...declared.filter((dir) => !dir.default),
+      ].map((dir) =>
+        dir.path.replace(/\\/g, "/").replace(/^\.\//, "").replace(/\/+$/, "")
+      );
+    } catch {
+      // Unreadable sfdx-project.json - fall back to searching the whole workspace
+      this.packageDirectories = [];
+    }
+
+    return this.packageDirectories;
+  }
+
+  /**
+   * Get the package directory a file belongs to, if any
+   */
+  public getPackageDirectory(filePath: string): string | undefined {
+    const relativePath = path
+      .relative(this.workspaceRoot, filePath)
+      .replace(/\\/g, "/");
+
+    // Longest match wins for nested package directories
+    return this.getPackageDirectories()
+      .filter(
+        (dir) => relativePath === dir || relativePath.startsWith(`${dir}/`)
+      )
+      .sort((a, b) => b.length - a.length)[0];
   }
 
   /**
    * Find component file in workspace based on component info
-   * Searches specifically under force-app/main/default
+   * Looks the component up in the metadata index; when several package
+   * directories define it, the default package wins
    */
   public async findComponentFile(
     component: ComponentInfo
   ): Promise<string | null> {
-    // Search specifically under force-app/main/default
-    const searchPatterns = [
-      `force-app/main/default/classes/${component.name}.cls`,
-      `force-app/main/default/triggers/${component.name}.trigger`,
-      `force-app/main/default/objects/${component.name}__c/**`,
-      `force-app/main/default/lwc/${component.name}/**`,
-      `force-app/main/default/aura/${component.name}/**`,
-      // Also try without the full path in case structure differs
-      `**/force-app/**/classes/${component.name}.cls`,
-      `**/force-app/**/triggers/${component.name}.trigger`,
-      `**/force-app/**/objects/${component.name}__c/**`,
-      `**/force-app/**/lwc/${component.name}/**`,
-      `**/force-app/**/aura/${component.name}/**`,
-      // Fallback patterns
-      `**/classes/${component.name}.cls`,
-      `**/triggers/${component.name}.trigger`,
-      `**/${component.name}.cls`,
-      `**/${component.name}.trigger`,
+    await this.index.ensureBuilt();
+
+    if (
+      !LOOSELY_NAMED_TYPES.includes(
+        MetadataRegistry.getTypeName(component.type)
+      )
+    ) {
+      return this.findByType(component);
+    }
+
+    // Error messages don't always name the right type, so try the usual suspects first
+    const candidates: ComponentInfo[] = [
+      { type: "ApexClass", name: component.name },
+      { type: "ApexTrigger", name: component.name },
+      { type: "CustomObject", name: `${component.name}__c` },
+      { type: "LightningComponentBundle", name: component.name },
+      { type: "AuraDefinitionBundle", name: component.name },
     ];
 
-    for (const pattern of searchPatterns) {
-      const files = await vscode.workspace.findFiles(
-        pattern,
-        "**/node_modules/**",
-        1
+    for (const candidate of candidates) {
+      const filePath = await this.indexedFile(
+        candidate.type,
+        candidate.name,
+        component.origin
       );
-      if (files.length > 0) {
-        return files[0].fsPath;
+      if (filePath) {
+        return filePath;
       }
     }
 
-    // Try to find by type-specific patterns
+    // Try to find by type-specific lookups
     return this.findByType(component);
   }
 
   /**
    * Find component by type-specific logic
-   * Searches specifically under force-app/main/default
    */
   private async findByType(component: ComponentInfo): Promise<string | null> {
-    let patterns: string[];
-
-    switch (component.type.toLowerCase()) {
-      case "apexclass":
-        patterns = [
-          `force-app/main/default/classes/${component.name}.cls`,
-          `**/force-app/**/classes/${component.name}.cls`,
-          `**/${component.name}.cls`,
-        ];
-        break;
-      case "apextrigger":
-        patterns = [
-          `force-app/main/default/triggers/${component.name}.trigger`,
-          `**/force-app/**/triggers/${component.name}.trigger`,
-          `**/${component.name}.trigger`,
-        ];
-        break;
-      case "customobject":
-        patterns = [
-          `force-app/main/default/objects/${component.name.replace(
-            "__c",
-            ""
-          )}__c/**`,
-          `**/force-app/**/objects/${component.name.replace("__c", "")}__c/**`,
-          `**/objects/${component.name.replace("__c", "")}__c/**`,
-        ];
-        break;
-      case "lightningcomponentbundle":
-      case "lwc":
-        patterns = [
-          `force-app/main/default/lwc/${component.name}/**`,
-          `**/force-app/**/lwc/${component.name}/**`,
-          `**/lwc/${component.name}/**`,
-        ];
-        break;
-      case "auradefinitionbundle":
-      case "aura":
-        patterns = [
-          `force-app/main/default/aura/${component.name}/**`,
-          `**/force-app/**/aura/${component.name}/**`,
-          `**/aura/${component.name}/**`,
-        ];
-        break;
-      default:
-        // Generic search
-        patterns = [
-          `force-app/main/default/**/${component.name}*`,
-          `**/force-app/**/${component.name}*`,
-          `**/${component.name}*`,
-        ];
-    }
-
-    for (const pattern of patterns) {
-      const files = await vscode.workspace.findFiles(
-        pattern,
-        "**/node_modules/**",
-        1
+    await this.index.ensureBuilt();
+
+    const definition = MetadataRegistry.getType(component.type);
+    const typeName = definition?.name || component.type;
+
+    if (typeName === "CustomObject") {
+      return (
+        (await this.indexedFile(typeName, component.name, component.origin)) ||
+        (await this.indexedFile(
+          typeName,
+          `${component.name.replace("__c", "")}__c`,
+          component.origin
+        ))
       );
-      if (files.length > 0) {
-        return files[0].fsPath;
+    }
+
+    // Decomposed children are qualified as "Object.Field__c" / "Object.RecordType";
+    // labels are indexed by their own name
+    if (
+      definition?.parentType === "CustomObject" &&
+      !component.name.includes(".")
+    ) {
+      return null;
+    }
+
+    return this.indexedFile(typeName, component.name, component.origin);
+  }
+
+  /**
+   * The workspace component with exactly this type and name, or null when
+   * the workspace doesn't define it (e.g., a standard object or system class)
+   * Unlike findComponentFile, the type is taken as given
+   */
+  public async resolveComponent(
+    type: string,
+    name: string,
+    origin?: DependencyOrigin
+  ): Promise<ComponentInfo | null> {
+    await this.index.ensureBuilt();
+
+    const candidates = this.index.lookup(
+      MetadataRegistry.getTypeName(type),
+      name
+    );
+    const component =
+      candidates.length > 1
+        ? await this.chooseCandidate(candidates, origin)
+        : candidates[0];
+    if (!component) {
+      return null;
+    }
+
+    return {
+      type: component.type,
+      name: component.name, // Casing as defined in the workspace
+      filePath: this.componentFile(component),
+      packageDirectory: component.packageDirectory,
+    };
+  }
+
+  /**
+   * Every workspace component of a type, e.g., all Apex classes
+   */
+  public async listComponents(type: string): Promise<ComponentInfo[]> {
+    await this.index.ensureBuilt();
+
+    return this.index
+      .listByType(MetadataRegistry.getTypeName(type))
+      .map((component) => ({
+        type: component.type,
+        name: component.name,
+        filePath: this.componentFile(component),
+        packageDirectory: component.packageDirectory,
+      }));
+  }
+
+  /**
+   * File of an indexed component; when several packages define it, the
+   * package of the failing component wins, otherwise the user picks
+   */
+  private async indexedFile(
+    type: string,
+    name: string,
+    origin?: DependencyOrigin
+  ): Promise<string | null> {
+    const candidates = this.index.lookup(type, name);
+    const component =
+      candidates.length > 1
+        ? await this.chooseCandidate(candidates, origin)
+        : candidates[0];
+    if (!component) {
+      return null;
+    }
+
+    return this.componentFile(component);
+  }
+
+  /**
+   * Pick one of the packages that define a component
+   */
+  private async chooseCandidate(
+    candidates: IndexedComponent[],
+    origin?: DependencyOrigin
+  ): Promise<IndexedComponent | undefined> {
+    const sourceFile = this.resolveOriginFile(origin);
+    const packageDirectory = await this.ambiguityResolver.choosePackage(
+      candidates[0].type,
+      candidates[0].name,
+      candidates.map((candidate) => candidate.packageDirectory || ""),
+      sourceFile ? this.getPackageDirectory(sourceFile) : undefined
+    );
+    return candidates.find(
+      (candidate) => (candidate.packageDirectory || "") === packageDirectory
+    );
+  }
+
+  /**
+   * The file to deploy an indexed component from
+   */
+  private componentFile(component: IndexedComponent): string {
+    // Prefer a file of the component itself over the files of its children
+    const ownFile = component.files.find(
+      (file) => this.index.getFileComponent(file)?.type === component.type
+    );
+    if (ownFile) {
+      return ownFile;
+    }
+
+    // Only children in source (e.g., fields of a standard object): use the component's folder
+    let folder = path.dirname(component.files[0]);
+    while (
+      path.basename(folder) !== component.name &&
+      folder !== path.dirname(folder)
+    ) {
+      folder = path.dirname(folder);
+    }
+    return path.basename(folder) === component.name
+      ? folder
+      : component.files[0];
+  }
+
+  /**
+   * Describe the components a file contributes to, for the metadata index
+   */
+  private describeFile(filePath: string): ComponentInfo[] {
+    const packageDirectory = this.getPackageDirectory(filePath);
+    if (!packageDirectory && this.getPackageDirectories().length > 0) {
+      // Outside every package directory - not deployable source
+      return [];
+    }
+    const metadataRoot = this.getMetadataRoot();
+    if (metadataRoot) {
+      // Metadata API format: only the type folders of the metadata root (classes/, objects/, ...)
+      const [folder, ...rest] = path
+        .relative(metadataRoot, filePath)
+        .split(path.sep);
+      if (rest.length === 0 || !MetadataRegistry.getTypeByDirectory(folder)) {
+        return [];
       }
     }
 
-    return null;
+    const component = this.detectComponent(filePath, packageDirectory);
+    if (!component) {
+      return [];
+    }
+    component.packageDirectory = packageDirectory;
+    const entries = [component];
+
+    // Children also make their parent findable, e.g., a field file -> its object
+    const parentType = MetadataRegistry.getType(component.type)?.parentType;
+    if (parentType) {
+      entries.push({
+        type: parentType,
+        name: component.name.split(".")[0],
+        filePath,
+        packageDirectory,
+      });
+    }
+
+    // Metadata API format: an object file holds its fields, validation rules, ...
+    if (component.type === "CustomObject" && filePath.endsWith(".object")) {
+      entries.push(...this.describeObjectChildren(filePath, component.name));
+    }
+
+    // A labels file holds many labels, each looked up by name
+    if (component.type === "CustomLabels") {
+      try {
+        const content = fs.readFileSync(filePath, "utf8");
+        for (const match of content.matchAll(
+          /<fullName>([^<]+)<\/fullName>/g
+        )) {
+          entries.push({
+            type: "CustomLabel",
+            name: match[1].trim(),
+            filePath,
+            packageDirectory,
+          });
+        }
+      } catch {
+        // Unreadable file - index the labels file alone
+      }
+    }
+
+    return entries;
   }
 
   /**
@@ -139,69 +441,215 @@ export class ComponentLocator {
   }
 
   /**
-   * Convert file path to ComponentInfo
+   * Children defined inside a Metadata API format object file (Account.object)
+   */
+  private describeObjectChildren(
+    filePath: string,
+    objectName: string
+  ): ComponentInfo[] {
+    let content: string;
+    try {
+      content = fs.readFileSync(filePath, "utf8");
+    } catch {
+      return [];
+    }
+
+    const children: ComponentInfo[] = [];
+    const childTypes =
+      MetadataRegistry.getType("CustomObject")?.childTypes || [];
+    for (const childType of childTypes) {
+      const definition = MetadataRegistry.getType(childType);
+      if (!definition) {
+        continue;
+      }
+      // Child elements are named after the source format folders: <fields>, <recordTypes>, ...
+      const pattern = new RegExp(
+        `<${definition.directoryName}>\\s*<fullName>([^<]+)</fullName>`,
+        "g"
+      );
+      for (const match of content.matchAll(pattern)) {
+        children.push({
+          type: definition.name,
+          name: `${objectName}.${match[1].trim()}`,
+          filePath,
+        });
+      }
+    }
+    return children;
+  }
+
+  /**
+   * Every file to deploy for a component in a Metadata API format project
+   * (the component file, its -meta.xml and bundle contents; children use their object file)
+   */
+  public async getComponentFiles(component: ComponentInfo): Promise<string[]> {
+    await this.index.ensureBuilt();
+
+    const typeName = MetadataRegistry.getTypeName(component.type);
+    const [indexed] = this.index.lookup(typeName, component.name);
+    if (indexed) {
+      return indexed.files;
+    }
+    return component.filePath ? [component.filePath] : [];
+  }
+
+  /**
+   * Collect every component under the selected files and folders
+   * Skips files excluded by .forceignore, and one entry per component
+   * (bundle files, or children whose object is selected as well)
+   */
+  public async collectComponents(paths: string[]): Promise<ComponentInfo[]> {
+    const isIgnored = new ForceIgnoreHandler(
+      this.workspaceRoot
+    ).createMatcher();
+    const components = new Map<string, ComponentInfo>();
+
+    const addFile = async (filePath: string) => {
+      if (isIgnored(filePath)) {
+        return;
+      }
+      const component = await this.pathToComponent(filePath);
+      const key = component && `${component.type}:${component.name}`;
+      if (component && key && !components.has(key)) {
+        components.set(key, component);
+      }
+    };
+
+    for (const selectedPath of paths) {
+      if (!fs.existsSync(selectedPath)) {
+        continue;
+      }
+      if (fs.statSync(selectedPath).isDirectory()) {
+        for (const filePath of this.listFiles(selectedPath)) {
+          await addFile(filePath);
+        }
+      } else {
+        await addFile(selectedPath);
+      }
+    }
+
+    // Deploying an object deploys its children
+    return Array.from(components.values()).filter((component) => {
+      const parentType = MetadataRegistry.getType(component.type)?.parentType;
+      return !(
+        parentType &&
+        components.has(`${parentType}:${component.name.split(".")[0]}`)
+      );
+    });
+  }
+
+  /**
+   * Every file below a folder, skipping hidden folders and node_modules
+   */
+  private listFiles(folder: string): string[] {
+    const files: string[] = [];
+    for (const entry of fs.readdirSync(folder, { withFileTypes: true })) {
+      const entryPath = path.join(folder, entry.name);
+      if (entry.isDirectory()) {
+        if (!entry.name.startsWith(".") && entry.name !== "node_modules") {
+          files.push(...this.listFiles(entryPath));
+        }
+      } else {
+        files.push(entryPath);
+      }
+    }
+    return files;
+  }
+
+  /**
+   * Convert file path to ComponentInfo, including the package directory it came from
    */
   public async pathToComponent(
     filePath: string
   ): Promise<ComponentInfo | null> {
-    const relativePath = path.relative(this.workspaceRoot, filePath);
-    const fileName = path.basename(filePath, path.extname(filePath));
+    await this.index.ensureBuilt();
+    const indexed = this.index.getFileComponent(filePath);
+    if (indexed) {
+      return indexed;
+    }
 
-    // Determine type from path structure
-    if (relativePath.includes("/classes/")) {
-      return { type: "ApexClass", name: fileName, filePath };
-    } else if (relativePath.includes("/triggers/")) {
-      return { type: "ApexTrigger", name: fileName, filePath };
-    } else if (relativePath.includes("/lwc/")) {
-      const lwcName = relativePath.split("/lwc/")[1].split("/")[0];
-      return { type: "LightningComponentBundle", name: lwcName, filePath };
-    } else if (relativePath.includes("/aura/")) {
-      const auraName = relativePath.split("/aura/")[1].split("/")[0];
-      return { type: "AuraDefinitionBundle", name: auraName, filePath };
-    } else if (relativePath.includes("/objects/")) {
-      const objectName = relativePath.split("/objects/")[1].split("/")[0];
-      return { type: "CustomObject", name: objectName, filePath };
+    // Not indexed, e.g., a file outside the package directories
+    const packageDirectory = this.getPackageDirectory(filePath);
+    const component = this.detectComponent(filePath, packageDirectory);
+    if (component) {
+      component.packageDirectory = packageDirectory;
     }
+    return component;
+  }
 
-    return null;
+  /**
+   * Determine component type and name from the path structure below the
+   * package directory (the workspace root for files outside every package)
+   */
+  private detectComponent(
+    filePath: string,
+    packageDirectory: string | undefined
+  ): ComponentInfo | null {
+    const relativePath = path.relative(
+      path.join(this.workspaceRoot, packageDirectory || ""),
+      filePath
+    );
+    const component = MetadataRegistry.resolvePath(relativePath);
+    return component ? { ...component, filePath } : null;
   }
 
   /**
-   * Find which object a custom field belongs to by searching in the objects folder
+   * Find which object a custom field belongs to using the metadata index
+   * When several objects define the field, the error context (origin) decides,
+   * otherwise the user picks
    * Returns the object name (e.g., "Account") or null if not found
    */
-  public async findObjectForField(fieldName: string): Promise<string | null> {
-    // Search for the field file in objects folder
-    // Pattern: force-app/main/default/objects/*/fields/{fieldName}.field-meta.xml
-    const searchPatterns = [
-      `force-app/main/default/objects/*/fields/${fieldName}.field-meta.xml`,
-      `**/force-app/**/objects/*/fields/${fieldName}.field-meta.xml`,
-      `**/objects/*/fields/${fieldName}.field-meta.xml`,
-    ];
+  public async findObjectForField(
+    fieldName: string,
+    origin?: DependencyOrigin
+  ): Promise<string | null> {
+    await this.index.ensureBuilt();
 
-    for (const pattern of searchPatterns) {
-      const files = await vscode.workspace.findFiles(
-        pattern,
-        "**/node_modules/**",
-        10 // Get multiple matches to find the right one
-      );
+    // Fields are indexed as "ObjectName.FieldName__c"
+    const objectNames = Array.from(
+      new Set(
+        this.index
+          .findByChildName("CustomField", fieldName)
+          .map((field) => field.name.split(".")[0])
+      )
+    );
+    if (objectNames.length <= 1) {
+      return objectNames[0] || null;
+    }
 
-      if (files.length > 0) {
-        // Extract object name from path
-        // Path format: .../objects/ObjectName__c/fields/FieldName__c.field-meta.xml
-        for (const file of files) {
-          const relativePath = path.relative(this.workspaceRoot, file.fsPath);
-          const objectsMatch = relativePath.match(/objects\/([^\/]+)\//);
-          if (objectsMatch && objectsMatch[1]) {
-            const objectName = objectsMatch[1];
-            // Remove __c suffix if present for standard objects, keep for custom objects
-            // For now, return as-is since Salesforce accepts both formats
-            return objectName;
-          }
-        }
+    return this.ambiguityResolver.chooseFieldOwner(
+      fieldName,
+      objectNames,
+      origin,
+      this.resolveOriginFile(origin)
+    );
+  }
+
+  /**
+   * Locate the source file of the component whose deployment reported a dependency
+   */
+  private resolveOriginFile(origin?: DependencyOrigin): string | undefined {
+    if (!origin) {
+      return undefined;
+    }
+
+    if (origin.fileName) {
+      const filePath = path.isAbsolute(origin.fileName)
+        ? origin.fileName
+        : path.join(this.workspaceRoot, origin.fileName);
+      if (fs.existsSync(filePath)) {
+        return filePath;
       }
     }
 
-    return null;
+    if (origin.componentType && origin.componentName) {
+      const [component] = this.index.lookup(
+        MetadataRegistry.getTypeName(origin.componentType),
+        origin.componentName
+      );
+      return component ? this.componentFile(component) : undefined;
+    }
+
+    return undefined;
   }
 }
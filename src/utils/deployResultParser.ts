@@ -0,0 +1,250 @@
+import {
+  ApexCodeCoverage,
+  ApexTestFailure,
+  ApexTestResults,
+  DeployComponentMessage,
+  DeployResultDetails,
+} from "../types";
+
+// Minimum per-class coverage Salesforce requires for production deploys
+export const COVERAGE_THRESHOLD = 75;
+
+export class DeployResultParser {
+  /**
+   * Parse the stdout of `sf project deploy start --json` into a typed result
+   * Returns null if the output is not a JSON deploy response
+   */
+  public static parse(stdout: string): DeployResultDetails | null {
+    const json = this.parseJson(stdout);
+    if (!json || typeof json !== "object") {
+      return null;
+    }
+
+    // Successful runs put the deploy result under "result"; failed runs
+    // (exit code 1) use "result" or "data" depending on the CLI version
+    const result = json.result || json.data;
+
+    if (!result || typeof result !== "object") {
+      // A CLI-level error (auth, flags, no default org) without a deploy result
+      if (json.status !== undefined && json.status !== 0) {
+        return {
+          status: "Failed",
+          success: false,
+          errorMessage: json.message || json.name,
+          componentSuccesses: [],
+          componentFailures: [],
+        };
+      }
+      return null;
+    }
+
+    const details = result.details || {};
+    const componentSuccesses = this.toArray(details.componentSuccesses)
+      .map((entry) => this.toComponentMessage(entry, true))
+      // The Metadata API always reports the package.xml itself as a success
+      .filter((message) => message.fullName !== "package.xml");
+
+    // Warnings are listed with the failures but don't fail the deploy
+    let componentFailures = this.toArray(details.componentFailures)
+      .map((entry) => this.toComponentMessage(entry, false))
+      .filter((message) => message.problemType !== "Warning");
+
+    // Older CLI versions only report failures through the "files" array
+    if (componentFailures.length === 0 && Array.isArray(result.files)) {
+      componentFailures = result.files
+        .filter(
+          (file: any) =>
+            file.state === "Failed" && file.problemType !== "Warning"
+        )
+        .map((file: any) => ({
+          componentType: file.type || "",
+          fullName: file.fullName || "",
+          fileName: file.filePath,
+          success: false,
+          problem: file.error,
+          problemType: file.problemType || "Error",
+          lineNumber: this.toNumber(file.lineNumber),
+          columnNumber: this.toNumber(file.columnNumber),
+        }));
+    }
+
+    const testResults = this.parseTestResults(details.runTestResult);
+
+    const status: string =
+      result.status || (json.status === 0 ? "Succeeded" : "Failed");
+    const success =
+      status === "Succeeded" &&
+      result.success !== false &&
+      componentFailures.length === 0 &&
+      (!testResults || testResults.numFailures === 0);
+
+    return {
+      deployId: result.id,
+      status,
+      success,
+      errorMessage: success ? undefined : json.message || result.errorMessage,
+      componentSuccesses,
+      componentFailures,
+      testResults,
+    };
+  }
+
+  /**
+   * Classes and triggers below the coverage threshold, lowest first
+   */
+  public static getUncoveredClasses(
+    testResults: ApexTestResults,
+    threshold: number = COVERAGE_THRESHOLD
+  ): ApexCodeCoverage[] {
+    return testResults.coverage
+      .filter((coverage) => coverage.percent < threshold)
+      .sort((a, b) => a.percent - b.percent);
+  }
+
+  /**
+   * Render a test failure as "Class.method (line:column): message"
+   */
+  public static formatTestFailure(failure: ApexTestFailure): string {
+    const location =
+      failure.lineNumber !== undefined
+        ? ` (${failure.lineNumber}:${failure.columnNumber ?? 0})`
+        : "";
+    return `${failure.className}.${failure.methodName}${location}: ${failure.message}`;
+  }
+
+  /**
+   * Render component failures as "Type Name (line:column): problem" lines
+   */
+  public static formatFailures(details: DeployResultDetails): string[] {
+    return details.componentFailures.map((failure) => {
+      const location =
+        failure.lineNumber !== undefined
+          ? ` (${failure.lineNumber}:${failure.columnNumber ?? 0})`
+          : "";
+      return `${failure.componentType} ${failure.fullName}${location}: ${
+        failure.problem || "Unknown problem"
+      }`;
+    });
+  }
+
+  /**
+   * Parse details.runTestResult; returns undefined when no tests ran
+   */
+  private static parseTestResults(
+    runTestResult: any
+  ): ApexTestResults | undefined {
+    if (!runTestResult || typeof runTestResult !== "object") {
+      return undefined;
+    }
+
+    const failures: ApexTestFailure[] = this.toArray(
+      runTestResult.failures
+    ).map((failure) => {
+      // Stack traces look like "Class.MyTest.testMethod: line 12, column 1"
+      const location = (failure.stackTrace || "").match(
+        /line (\d+), column (\d+)/
+      );
+      return {
+        className: failure.name || "",
+        methodName: failure.methodName || "",
+        message: failure.message || "",
+        stackTrace: failure.stackTrace || undefined,
+        lineNumber: location ? Number(location[1]) : undefined,
+        columnNumber: location ? Number(location[2]) : undefined,
+      };
+    });
+
+    const coverage: ApexCodeCoverage[] = this.toArray(
+      runTestResult.codeCoverage
+    ).map((entry) => {
+      const numLocations = this.toNumber(entry.numLocations) ?? 0;
+      const numLocationsNotCovered =
+        this.toNumber(entry.numLocationsNotCovered) ?? 0;
+      return {
+        name: entry.name || "",
+        type: entry.type || "Class",
+        numLocations,
+        numLocationsNotCovered,
+        percent:
+          numLocations === 0
+            ? 100
+            : Math.floor(
+                ((numLocations - numLocationsNotCovered) / numLocations) * 100
+              ),
+      };
+    });
+
+    const coverageWarnings = this.toArray(runTestResult.codeCoverageWarnings)
+      .map((warning) =>
+        warning.name ? `${warning.name}: ${warning.message}` : warning.message
+      )
+      .filter((message) => !!message);
+
+    return {
+      numTestsRun: this.toNumber(runTestResult.numTestsRun) ?? 0,
+      numFailures: this.toNumber(runTestResult.numFailures) ?? failures.length,
+      failures,
+      coverage,
+      coverageWarnings,
+    };
+  }
+
+  /**
+   * Parse JSON, tolerating warnings printed around the JSON document
+   */
+  private static parseJson(stdout: string): any {
+    const trimmed = stdout.trim();
+    if (!trimmed) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      const start = trimmed.indexOf("{");
+      const end = trimmed.lastIndexOf("}");
+      if (start === -1 || end <= start) {
+        return null;
+      }
+      try {
+        return JSON.parse(trimmed.substring(start, end + 1));
+      } catch {
+        return null;
+      }
+    }
+  }
+
+  /**
+   * The Metadata API returns a single object instead of an array when there is one entry
+   */
+  private static toArray(value: any): any[] {
+    if (!value) {
+      return [];
+    }
+    return Array.isArray(value) ? value : [value];
+  }
+
+  private static toComponentMessage(
+    entry: any,
+    success: boolean
+  ): DeployComponentMessage {
+    return {
+      componentType: entry.componentType || "",
+      fullName: entry.fullName || "",
+      fileName: entry.fileName,
+      success,
+      problem: entry.problem,
+      problemType: entry.problemType,
+      lineNumber: this.toNumber(entry.lineNumber),
+      columnNumber: this.toNumber(entry.columnNumber),
+    };
+  }
+
+  private static toNumber(value: any): number | undefined {
+    if (value === undefined || value === null || value === "") {
+      return undefined;
+    }
+    const parsed = Number(value);
+    return isNaN(parsed) ? undefined : parsed;
+  }
+}
@@ -1,43 +1,209 @@
-import { ComponentInfo } from "../types";
+import {
+  ClassifiedFailure,
+  ComponentInfo,
+  DependencyOrigin,
+  DeploymentResult,
+  FailureCategory,
+} from "../types";
 import * as vscode from "vscode";
+import { RuleRegistry } from "./ruleRegistry";
+import { MetadataRegistry } from "./metadataRegistry";
+import { DeployResultParser, COVERAGE_THRESHOLD } from "./deployResultParser";
+
+// How the CLI reports source conflicts with the org
+const CONFLICT_PATTERNS = [
+  /changes in the org that conflict/i,
+  /conflict with the local changes/i,
+  /SourceConflictError/,
+  /^\s*Conflict\s+[\w_]+\s+\w+/i,
+];
+
+/**
+ * Failure categories checked in order (first match wins);
+ * missing dependencies are detected through the rule registry between
+ * the operational categories and compile errors
+ */
+const CATEGORY_PATTERNS: { category: FailureCategory; patterns: RegExp[] }[] = [
+  {
+    category: "cliOrAuth",
+    patterns: [
+      /INVALID_SESSION_ID/i,
+      /expired access\/refresh token/i,
+      /No default (?:org|environment)/i,
+      /NoDefaultEnvError|NoOrgFound|NamedOrgNotFound/i,
+      /not authenticated|authorization (?:failed|expired)/i,
+      /command not found|is not recognized as an internal or external command/i,
+      /Nonexistent flag|Unexpected argument/i,
+    ],
+  },
+  {
+    category: "lockContention",
+    patterns: [
+      /UNABLE_TO_LOCK_ROW/i,
+      /unable to obtain exclusive access/i,
+      /another (?:deployment|deploy) is (?:already )?in progress/i,
+      /lock contention|record currently unavailable/i,
+    ],
+  },
+  {
+    category: "orgLimit",
+    patterns: [
+      /(?:REQUEST|STORAGE|CONCURRENT_REQUESTS)?_?LIMIT_EXCEEDED/i,
+      /limit exceeded|exceeded the (?:daily )?limit/i,
+      /maximum number of .+ (?:reached|exceeded)/i,
+    ],
+  },
+  {
+    category: "conflict",
+    patterns: CONFLICT_PATTERNS,
+  },
+  {
+    category: "insufficientCoverage",
+    patterns: [
+      /Average test coverage across all Apex Classes and Triggers is \d+%/i,
+      /at least \d+% test coverage/i,
+      /Test coverage of selected Apex (?:Class|Trigger) is \d+%/i,
+      /insufficient (?:code )?coverage/i,
+    ],
+  },
+  {
+    category: "testFailure",
+    patterns: [
+      /test failures?/i,
+      /System\.AssertException/i,
+      /Assertion Failed/i,
+    ],
+  },
+  {
+    category: "permission",
+    patterns: [
+      /INSUFFICIENT_ACCESS/i,
+      /insufficient (?:access|privileges)/i,
+      /do(?:es)? not have (?:the )?(?:permission|access)/i,
+      /Field is not writeable/i,
+      /FIELD_INTEGRITY_EXCEPTION/i,
+    ],
+  },
+];
+
+const COMPILE_ERROR_PATTERNS = [
+  /unexpected token/i,
+  /expecting .+ but was/i,
+  /extraneous input/i,
+  /missing ['"]?;['"]?/i,
+  /no viable alternative/i,
+  /Illegal assignment/i,
+  /Duplicate (?:variable|method|field)/i,
+  /Non-void method might not return a value/i,
+  /compilation failed|syntax error/i,
+];
+
+// Problems on a field, validation rule, record type, ... saying its object is missing
+const PARENT_MISSING_PATTERNS = [
+  /not found|cannot find|could not be found|does not exist/i,
+  /invalid parent|no such (?:entity|object)/i,
+];
+
+const CATEGORY_LABELS: { [category in FailureCategory]: string } = {
+  missingDependency: "Missing dependency",
+  compileError: "Apex compile/syntax error",
+  testFailure: "Test failure",
+  insufficientCoverage: "Insufficient code coverage",
+  permission: "Permission/FLS",
+  conflict: "Conflict with org changes",
+  lockContention: "Lock/row contention",
+  orgLimit: "Org limit",
+  cliOrAuth: "CLI/authentication problem",
+  unknown: "Unrecognized error",
+};
 
 export class ErrorParser {
   private outputChannel?: vscode.OutputChannel;
+  private ruleRegistry: RuleRegistry;
 
-  constructor(outputChannel?: vscode.OutputChannel) {
+  constructor(
+    outputChannel?: vscode.OutputChannel,
+    ruleRegistry?: RuleRegistry
+  ) {
     this.outputChannel = outputChannel;
+    this.ruleRegistry = ruleRegistry || new RuleRegistry();
   }
   /**
-   * Parse deployment output to find missing dependencies
+   * Parse deployment result to find missing dependencies
+   * Uses the structured componentFailures when the deploy ran with --json,
+   * otherwise falls back to scanning the raw CLI output
    */
-  public parseMissingDependencies(output: string): ComponentInfo[] {
-    const dependencies: ComponentInfo[] = [];
-    const lines = output.split("\n");
+  public parseMissingDependencies(
+    result: DeploymentResult | string
+  ): ComponentInfo[] {
+    if (typeof result === "string") {
+      return this.parseProblemText(result);
+    }
 
-    // Common Salesforce error patterns for missing dependencies
-    const patterns = [
-      // Pattern: "Class 'ClassName' does not exist"
-      /Class\s+['"]([\w]+)['"]\s+does\s+not\s+exist/i,
+    if (result.details) {
+      // Keep the failing component with each dependency to resolve ambiguous names
+      const dependencies: ComponentInfo[] = [];
+      for (const failure of result.details.componentFailures) {
+        if (!failure.problem) {
+          continue;
+        }
+        const origin: DependencyOrigin = {
+          message: failure.problem,
+          componentType: failure.componentType,
+          componentName: failure.fullName,
+          fileName: failure.fileName,
+          lineNumber: failure.lineNumber,
+          columnNumber: failure.columnNumber,
+        };
+        const found = this.parseProblemText(failure.problem, origin);
+        const parent = this.parseMissingParent(failure.problem, origin);
+        dependencies.push(...found, ...(parent ? [parent] : []));
+      }
+      return this.deduplicateComponents(dependencies);
+    }
 
-      // Pattern: "Dependent class is invalid and needs recompilation: ClassName"
-      /Dependent\s+class\s+is\s+invalid\s+and\s+needs\s+recompilation:\s*([\w]+)/i,
+    return this.parseProblemText(result.output);
+  }
 
-      // Pattern: "No such column 'Field__c' on entity 'CustomObject__c'"
-      /No\s+such\s+column\s+['"]([\w_]+)['"]\s+on\s+entity\s+['"]([\w_]+)['"]/i,
+  /**
+   * A decomposed child (field, validation rule, record type, ...) deploys without
+   * its object; only when the org reports the parent missing is the object added
+   */
+  private parseMissingParent(
+    problem: string,
+    origin: DependencyOrigin
+  ): ComponentInfo | null {
+    const definition = MetadataRegistry.getType(origin.componentType || "");
+    if (
+      definition?.parentType !== "CustomObject" ||
+      !origin.componentName?.includes(".")
+    ) {
+      return null;
+    }
 
-      // Pattern: "sObject type 'CustomObject__c' is not supported"
-      /sObject\s+type\s+['"]([\w_]+)['"]\s+is\s+not\s+supported/i,
+    const parentName = origin.componentName.split(".")[0];
+    const mentionsParent = new RegExp(`\\b${parentName}\\b`, "i").test(problem);
+    const parentMissing = PARENT_MISSING_PATTERNS.some((pattern) =>
+      pattern.test(problem)
+    );
+    if (!mentionsParent || !parentMissing) {
+      return null;
+    }
 
-      // Pattern: "Invalid type: ClassName"
-      /Invalid\s+type:\s*([\w]+)/i,
+    return { type: "CustomObject", name: parentName, origin };
+  }
 
-      // Pattern: "Variable does not exist: FieldName__c" or "Variable does not exist: ClassName"
-      // Note: This should match field names (with underscores) or class names, but NOT line numbers
-      /Variable\s+does\s+not\s+exist:\s*([\w_]+)(?:\s*\([\d:]+\))?/i,
+  /**
+   * Scan error text line by line for missing dependency patterns
+   */
+  private parseProblemText(
+    output: string,
+    origin?: DependencyOrigin
+  ): ComponentInfo[] {
+    const dependencies: ComponentInfo[] = [];
+    const lines = output.split("\n");
 
-      // Pattern: "Type is not visible: ClassName"
-      /Type\s+is\s+not\s+visible:\s*([\w_]+)/i,
-    ];
+    const rules = this.ruleRegistry.getRules();
 
     for (const line of lines) {
       // Skip lines that are just line numbers (like "4:13" at the end of error tables)
@@ -56,105 +222,159 @@ export class ErrorParser {
         }
       }
 
-      // Check for Apex Class dependencies
-      const classMatch = line.match(
-        /Class\s+['"]([\w]+)['"]\s+does\s+not\s+exist/i
-      );
-      if (classMatch) {
+      // First matching rule wins (built-in rules plus .wormhole/rules.json)
+      const match = this.ruleRegistry.matchLine(line, rules);
+      if (match && match.component) {
         dependencies.push({
-          type: "ApexClass",
-          name: classMatch[1],
+          ...match.component,
+          origin: { ...origin, message: line.trim() },
         });
-        continue;
       }
+    }
 
-      // Check for "Invalid type: ClassName" pattern (common in deployment errors)
-      // But skip if it's just a number (line number) or contains colons (like "4:13")
-      const invalidTypeMatch = line.match(/Invalid\s+type:\s*([\w_]+)/i);
-      if (invalidTypeMatch) {
-        const typeName = invalidTypeMatch[1];
-        // Skip if it's just a number or contains colons (likely a line number)
-        if (
-          !/^\d+$/.test(typeName) &&
-          !typeName.includes(":") &&
-          typeName.length > 1
-        ) {
-          dependencies.push({
-            type: "ApexClass",
-            name: typeName,
-          });
-        }
-        continue;
+    // Remove duplicates
+    return this.deduplicateComponents(dependencies);
+  }
+
+  /**
+   * Classify every failure in a deployment result into a category
+   * Uses the structured componentFailures when available, otherwise the raw output lines
+   * Low coverage is only reported for classes and triggers in the deploy set;
+   * without one, the org's own coverage warnings decide
+   */
+  public classifyFailures(
+    result: DeploymentResult | string,
+    deployed: ComponentInfo[] = []
+  ): ClassifiedFailure[] {
+    const failures: ClassifiedFailure[] = [];
+    const rules = this.ruleRegistry.getRules();
+
+    if (typeof result !== "string" && result.details) {
+      for (const failure of result.details.componentFailures) {
+        const message = failure.problem || "Unknown problem";
+        failures.push({
+          ...this.classifyMessage(message, rules),
+          component: { type: failure.componentType, name: failure.fullName },
+          lineNumber: failure.lineNumber,
+          columnNumber: failure.columnNumber,
+        });
       }
 
-      // Check for recompilation needed
-      const recompileMatch = line.match(
-        /Dependent\s+class\s+is\s+invalid[^:]*:\s*([\w]+)/i
-      );
-      if (recompileMatch) {
-        const className = recompileMatch[1];
-        // Skip if it's just a number (line number)
-        if (!/^\d+$/.test(className) && className.length > 1) {
-          dependencies.push({
-            type: "ApexClass",
-            name: className,
+      const testResults = result.details.testResults;
+      if (testResults) {
+        for (const failure of testResults.failures) {
+          failures.push({
+            category: "testFailure",
+            message: `${failure.methodName}: ${failure.message}`,
+            component: { type: "ApexClass", name: failure.className },
+            lineNumber: failure.lineNumber,
+            columnNumber: failure.columnNumber,
           });
         }
-        continue;
+        const deployedKeys = new Set(
+          deployed.map((component) =>
+            `${component.type}:${component.name}`.toLowerCase()
+          )
+        );
+        for (const coverage of DeployResultParser.getUncoveredClasses(
+          testResults
+        )) {
+          const type =
+            coverage.type === "Trigger" ? "ApexTrigger" : "ApexClass";
+          if (!deployedKeys.has(`${type}:${coverage.name}`.toLowerCase())) {
+            continue;
+          }
+          failures.push({
+            category: "insufficientCoverage",
+            message: `${coverage.percent}% covered, ${COVERAGE_THRESHOLD}% required`,
+            component: { type, name: coverage.name },
+          });
+        }
+        for (const warning of testResults.coverageWarnings) {
+          failures.push({ category: "insufficientCoverage", message: warning });
+        }
       }
 
-      // Check for Custom Object dependencies
-      const objectMatch = line.match(/sObject\s+type\s+['"]([\w_]+)['"]/i);
-      if (objectMatch) {
-        dependencies.push({
-          type: "CustomObject",
-          name: objectMatch[1],
-        });
-        continue;
+      if (failures.length === 0 && result.details.errorMessage) {
+        failures.push(this.classifyMessage(result.details.errorMessage, rules));
+      }
+      if (failures.length > 0) {
+        return failures;
       }
+    }
 
-      // Check for field dependencies (implies object dependency)
-      const fieldMatch = line.match(
-        /No\s+such\s+column\s+['"]([\w_]+)['"]\s+on\s+entity\s+['"]([\w_]+)['"]/i
-      );
-      if (fieldMatch) {
-        dependencies.push({
-          type: "CustomObject",
-          name: fieldMatch[2],
-        });
+    // No structured failures - classify each recognizable line of the raw output
+    const output = typeof result === "string" ? result : result.output;
+    for (const line of output.split("\n")) {
+      const trimmed = line.trim();
+      if (!trimmed) {
         continue;
       }
+      const failure = this.classifyMessage(trimmed, rules);
+      if (failure.category !== "unknown") {
+        failures.push(failure);
+      }
+    }
 
-      // Check for "Variable does not exist" - this could be a field or class
-      // Pattern: "Variable does not exist: FieldName__c (4:13)" or "Variable does not exist: ClassName"
-      // We need to extract the variable name but skip line numbers
-      const variableMatch = line.match(
-        /Variable\s+does\s+not\s+exist:\s*([\w_]+)(?:\s*\([\d:]+\))?/i
-      );
-      if (variableMatch) {
-        const varName = variableMatch[1];
-        // Skip if it's just a number (likely a line number mis-parsed) or too short
-        if (!/^\d+$/.test(varName) && varName.length > 1) {
-          // If it ends with __c, it's likely a custom field (CustomField dependency)
-          if (varName.endsWith("__c")) {
-            dependencies.push({
-              type: "CustomField",
-              name: varName, // Will be resolved to "ObjectName.FieldName__c" later
-            });
-          } else {
-            // Assume it's a class name or variable name that refers to a class
-            dependencies.push({
-              type: "ApexClass",
-              name: varName,
-            });
-          }
-        }
-        continue;
+    if (failures.length === 0 && output.trim()) {
+      failures.push({
+        category: "unknown",
+        message: output.trim().split("\n").slice(0, 10).join("\n"),
+      });
+    }
+
+    return failures;
+  }
+
+  /**
+   * Human-readable label for a failure category
+   */
+  public static getCategoryLabel(category: FailureCategory): string {
+    return CATEGORY_LABELS[category];
+  }
+
+  /**
+   * Group failures by category, keeping the order of first appearance
+   */
+  public static groupByCategory(
+    failures: ClassifiedFailure[]
+  ): Map<FailureCategory, ClassifiedFailure[]> {
+    const groups = new Map<FailureCategory, ClassifiedFailure[]>();
+    for (const failure of failures) {
+      const group = groups.get(failure.category) || [];
+      group.push(failure);
+      groups.set(failure.category, group);
+    }
+    return groups;
+  }
+
+  /**
+   * Classify a single error message
+   */
+  private classifyMessage(
+    message: string,
+    rules = this.ruleRegistry.getRules()
+  ): ClassifiedFailure {
+    for (const { category, patterns } of CATEGORY_PATTERNS) {
+      if (patterns.some((pattern) => pattern.test(message))) {
+        return { category, message };
       }
     }
 
-    // Remove duplicates
-    return this.deduplicateComponents(dependencies);
+    const match = this.ruleRegistry.matchLine(message, rules);
+    if (match && match.component) {
+      return {
+        category: "missingDependency",
+        message,
+        dependency: match.component,
+      };
+    }
+
+    if (COMPILE_ERROR_PATTERNS.some((pattern) => pattern.test(message))) {
+      return { category: "compileError", message };
+    }
+
+    return { category: "unknown", message };
   }
 
   /**
@@ -201,16 +421,9 @@ export class ErrorParser {
    * Check if output indicates a conflict error
    */
   public isConflictError(output: string): boolean {
-    const conflictIndicators = [
-      "conflict",
-      "changes in the org that conflict",
-      "conflict with the local changes",
-    ];
-
-    const lowerOutput = output.toLowerCase();
-    return conflictIndicators.some((indicator) =>
-      lowerOutput.includes(indicator.toLowerCase())
-    );
+    return output
+      .split("\n")
+      .some((line) => CONFLICT_PATTERNS.some((pattern) => pattern.test(line)));
   }
 
   /**
@@ -228,14 +441,8 @@ export class ErrorParser {
         const componentType = conflictMatch[2];
 
         // Map Salesforce types to our types
-        const typeMap: { [key: string]: string } = {
-          ApexClass: "ApexClass",
-          ApexTrigger: "ApexTrigger",
-          CustomObject: "CustomObject",
-        };
-
         conflicts.push({
-          type: typeMap[componentType] || componentType,
+          type: MetadataRegistry.getTypeName(componentType),
           name: componentName,
         });
       }
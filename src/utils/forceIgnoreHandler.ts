@@ -2,11 +2,22 @@ import * as fs from "fs";
 import * as path from "path";
 import * as vscode from "vscode";
 
+/**
+ * Temporary exclusions in one .forceignore, shared by the jobs deploying at the same time
+ */
+interface HeldExclusions {
+  originalContent: string | null; // null when the file didn't exist
+  holders: number; // Handlers that added or reused the exclusions and haven't restored yet
+}
+
 export class ForceIgnoreHandler {
+  // .forceignore path -> exclusions held by running jobs; the file is
+  // restored only when the last job holding them is done
+  private static held: Map<string, HeldExclusions> = new Map();
+
   private workspaceRoot: string;
   private forceIgnorePath: string;
-  private originalContent: string | null = null;
-  private addedEntries: string[] = [];
+  private holding = false;
 
   constructor(workspaceRoot: string) {
     this.workspaceRoot = workspaceRoot;
@@ -15,6 +26,8 @@ export class ForceIgnoreHandler {
 
   /**
    * Add directory to .forceignore to exclude it from validation
+   * Jobs running side by side share the exclusion: each one restores
+   * when it is done, and the last one puts the original file back
    */
   public addExclusion(
     directoryPath: string,
@@ -24,14 +37,18 @@ export class ForceIgnoreHandler {
     const ignorePattern = relativePath.replace(/\\/g, "/"); // Normalize path separators
 
     // Read existing .forceignore or create new
-    let content = "";
-    if (fs.existsSync(this.forceIgnorePath)) {
-      this.originalContent = fs.readFileSync(this.forceIgnorePath, "utf8");
-      content = this.originalContent;
-    }
+    const content = fs.existsSync(this.forceIgnorePath)
+      ? fs.readFileSync(this.forceIgnorePath, "utf8")
+      : null;
+    const held = ForceIgnoreHandler.held.get(this.forceIgnorePath);
 
     // Check if pattern already exists
-    if (content.includes(ignorePattern)) {
+    if (content !== null && content.includes(ignorePattern)) {
+      if (held && !this.holding) {
+        // Added by another running job; keep it until this job is done too
+        held.holders++;
+        this.holding = true;
+      }
       if (outputChannel) {
         outputChannel.appendLine(
           `   Pattern already in .forceignore: ${ignorePattern}`
@@ -42,11 +59,22 @@ export class ForceIgnoreHandler {
 
     // Add SF Wormhole Deploy comment and pattern
     const sfWormholeSection = `# SF Wormhole Deploy temporary exclusions\n${ignorePattern}\n`;
-    content += `\n${sfWormholeSection}`;
 
     // Write updated .forceignore
-    fs.writeFileSync(this.forceIgnorePath, content, "utf8");
-    this.addedEntries.push(ignorePattern);
+    fs.writeFileSync(
+      this.forceIgnorePath,
+      `${content || ""}\n${sfWormholeSection}`,
+      "utf8"
+    );
+    if (!held) {
+      ForceIgnoreHandler.held.set(this.forceIgnorePath, {
+        originalContent: content,
+        holders: 1,
+      });
+    } else if (!this.holding) {
+      held.holders++;
+    }
+    this.holding = true;
 
     if (outputChannel) {
       outputChannel.appendLine(`   Added to .forceignore: ${ignorePattern}`);
@@ -54,15 +82,28 @@ export class ForceIgnoreHandler {
   }
 
   /**
-   * Restore original .forceignore content
+   * Restore original .forceignore content, once no other job holds its exclusions
    */
   public restore(outputChannel?: vscode.OutputChannel): void {
-    if (this.addedEntries.length === 0) {
+    const held = ForceIgnoreHandler.held.get(this.forceIgnorePath);
+    if (!this.holding || !held) {
+      return;
+    }
+    this.holding = false;
+
+    held.holders--;
+    if (held.holders > 0) {
+      if (outputChannel) {
+        outputChannel.appendLine(
+          `   Kept .forceignore exclusions for ${held.holders} other running job(s)`
+        );
+      }
       return;
     }
+    ForceIgnoreHandler.held.delete(this.forceIgnorePath);
 
     try {
-      if (this.originalContent === null) {
+      if (held.originalContent === null) {
         // We created the file, so delete it
         if (fs.existsSync(this.forceIgnorePath)) {
           fs.unlinkSync(this.forceIgnorePath);
@@ -72,12 +113,11 @@ export class ForceIgnoreHandler {
         }
       } else {
         // Restore original content
-        fs.writeFileSync(this.forceIgnorePath, this.originalContent, "utf8");
+        fs.writeFileSync(this.forceIgnorePath, held.originalContent, "utf8");
         if (outputChannel) {
           outputChannel.appendLine("   Restored original .forceignore");
         }
       }
-      this.addedEntries = [];
     } catch (error: any) {
       if (outputChannel) {
         outputChannel.appendLine(
@@ -87,6 +127,79 @@ export class ForceIgnoreHandler {
     }
   }
 
+  /**
+   * Check whether .forceignore excludes a file (gitignore syntax; the last matching pattern wins)
+   */
+  public isIgnored(filePath: string): boolean {
+    return this.createMatcher()(filePath);
+  }
+
+  /**
+   * Read and compile .forceignore once, for checking many files against it
+   * The matcher doesn't see later changes to the file
+   */
+  public createMatcher(): (filePath: string) => boolean {
+    const patterns = this.loadPatterns();
+    return (filePath: string) => {
+      const relativePath = path
+        .relative(this.workspaceRoot, filePath)
+        .replace(/\\/g, "/");
+
+      let ignored = false;
+      for (const { regex, negated } of patterns) {
+        if (regex.test(relativePath)) {
+          ignored = !negated;
+        }
+      }
+      return ignored;
+    };
+  }
+
+  /**
+   * Parse .forceignore into regular expressions
+   */
+  private loadPatterns(): { regex: RegExp; negated: boolean }[] {
+    if (!fs.existsSync(this.forceIgnorePath)) {
+      return [];
+    }
+
+    return fs
+      .readFileSync(this.forceIgnorePath, "utf8")
+      .split("\n")
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0 && !line.startsWith("#"))
+      .map((line) => {
+        const negated = line.startsWith("!");
+        const pattern = (negated ? line.substring(1) : line).replace(
+          /\/+$/,
+          ""
+        );
+        return { regex: this.patternToRegExp(pattern), negated };
+      });
+  }
+
+  /**
+   * Convert a gitignore-style pattern to a regular expression
+   * A pattern matches the path itself or anything below it
+   */
+  private patternToRegExp(pattern: string): RegExp {
+    // Patterns without a slash (other than a trailing one) match at any depth
+    const anchored = pattern.includes("/");
+    const body = pattern
+      .replace(/^\//, "")
+      .split("**")
+      .map((part) =>
+        part
+          .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+          .replace(/\*/g, "[^/]*")
+          .replace(/\?/g, "[^/]")
+      )
+      .join(".*")
+      .replace(/\.\*\//g, "(?:.*/)?");
+
+    return new RegExp(`${anchored ? "^" : "(?:^|/)"}${body}(?:/.*)?$`);
+  }
+
   /**
    * Extract problematic directory from error message
    */
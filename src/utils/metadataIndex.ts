@@ -0,0 +1,368 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { ComponentInfo } from "../types";
+
+export interface IndexedComponent {
+  type: string;
+  name: string;
+  packageDirectory?: string;
+  files: string[]; // Shortest path first, e.g., "Foo.cls" before "Foo.cls-meta.xml"
+}
+
+/**
+ * Describe the components a file contributes to; the first entry is the
+ * component the file itself belongs to (e.g., a field file yields its
+ * CustomObject and the CustomField "Object.Field__c")
+ */
+export type FileClassifier = (filePath: string) => ComponentInfo[];
+
+// Wormhole's own output (e.g., .wormhole/mdapi deploy copies) and dependencies are never indexed
+const EXCLUDED_FILES = "{**/node_modules/**,**/.wormhole/**}";
+
+/**
+ * In-memory index of the metadata in the workspace, built once per session
+ * and kept current by a file system watcher
+ */
+export class MetadataIndex implements vscode.Disposable {
+  private workspaceRoot: string;
+  private classify: FileClassifier;
+  private getPackageDirectories: () => string[];
+  private outputChannel?: vscode.OutputChannel;
+  // "type:name" (lower case) -> one entry per package directory defining it
+  private components: Map<string, IndexedComponent[]> = new Map();
+  // "type:child" (lower case) -> keys of qualified components, e.g., "customfield:amount__c"
+  private childNames: Map<string, Set<string>> = new Map();
+  private fileEntries: Map<string, ComponentInfo[]> = new Map();
+  // Folder -> indexed files directly in it, to remove a deleted folder's files
+  private folderFiles: Map<string, Set<string>> = new Map();
+  private building: Promise<void> | null = null;
+  // Bumped by invalidate, so a build started before it discards its results
+  private generation = 0;
+  private watchers: vscode.FileSystemWatcher[] = [];
+  private invalidateListeners: (() => void)[] = [];
+
+  constructor(
+    workspaceRoot: string,
+    classify: FileClassifier,
+    getPackageDirectories: () => string[],
+    outputChannel?: vscode.OutputChannel
+  ) {
+    this.workspaceRoot = workspaceRoot;
+    this.classify = classify;
+    this.getPackageDirectories = getPackageDirectories;
+    this.outputChannel = outputChannel;
+  }
+
+  /**
+   * Build the index on first use; later calls return immediately
+   */
+  public ensureBuilt(): Promise<void> {
+    if (!this.building) {
+      this.building = this.build();
+    }
+    return this.building;
+  }
+
+  /**
+   * Components with the given type and name, default package first
+   */
+  public lookup(type: string, name: string): IndexedComponent[] {
+    return this.sortByPackage(this.components.get(this.key(type, name)) || []);
+  }
+
+  /**
+   * Qualified components ("Parent.Child") whose child name matches
+   * e.g., findByChildName("CustomField", "Amount__c") -> Opportunity.Amount__c
+   */
+  public findByChildName(type: string, childName: string): IndexedComponent[] {
+    const keys = this.childNames.get(this.key(type, childName));
+    if (!keys) {
+      return [];
+    }
+
+    const matches: IndexedComponent[] = [];
+    keys.forEach((key) => matches.push(...(this.components.get(key) || [])));
+    return this.sortByPackage(matches);
+  }
+
+  /**
+   * Every indexed component of a type, one entry per package directory
+   */
+  public listByType(type: string): IndexedComponent[] {
+    const prefix = `${type}:`.toLowerCase();
+    const matches: IndexedComponent[] = [];
+    this.components.forEach((candidates, key) => {
+      if (key.startsWith(prefix)) {
+        matches.push(...candidates);
+      }
+    });
+    return this.sortByPackage(matches);
+  }
+
+  /**
+   * The component an indexed file belongs to
+   */
+  public getFileComponent(filePath: string): ComponentInfo | undefined {
+    const entries = this.fileEntries.get(filePath);
+    return entries && entries.length > 0 ? { ...entries[0] } : undefined;
+  }
+
+  /**
+   * Drop the index; the next lookup rebuilds it
+   */
+  public invalidate(): void {
+    this.generation++;
+    this.building = null;
+    this.components.clear();
+    this.childNames.clear();
+    this.fileEntries.clear();
+    this.folderFiles.clear();
+    // The package directories to watch may have changed
+    this.stopWatching();
+    this.invalidateListeners.forEach((listener) => listener());
+  }
+
+  /**
+   * Call the listener whenever the index is dropped (sfdx-project.json changed)
+   */
+  public onInvalidate(listener: () => void): void {
+    this.invalidateListeners.push(listener);
+  }
+
+  public dispose(): void {
+    this.stopWatching();
+  }
+
+  private async build(): Promise<void> {
+    const startTime = Date.now();
+    const generation = this.generation;
+    this.startWatching();
+
+    this.components.clear();
+    this.childNames.clear();
+    this.fileEntries.clear();
+    this.folderFiles.clear();
+
+    for (const pattern of this.getPatterns()) {
+      const files = await vscode.workspace.findFiles(pattern, EXCLUDED_FILES);
+      if (generation !== this.generation) {
+        // Invalidated while searching; wait for the build that replaced this one
+        return this.ensureBuilt();
+      }
+      files.forEach((file) => this.addFile(file.fsPath));
+    }
+
+    this.outputChannel?.appendLine(
+      `Indexed ${this.countComponents()} component(s) from ${
+        this.fileEntries.size
+      } file(s) in ${Date.now() - startTime}ms`
+    );
+  }
+
+  /**
+   * Glob patterns of the indexed files: the package directories, or the
+   * whole workspace without sfdx-project.json
+   */
+  private getPatterns(): string[] {
+    const packageDirectories = this.getPackageDirectories();
+    return packageDirectories.length > 0
+      ? packageDirectories.map((dir) => `${dir}/**`)
+      : ["**/*"];
+  }
+
+  /**
+   * Watch the indexed files, and sfdx-project.json for package directory changes
+   */
+  private startWatching(): void {
+    if (this.watchers.length > 0) {
+      return;
+    }
+
+    for (const pattern of this.getPatterns()) {
+      const watcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(this.workspaceRoot, pattern)
+      );
+      watcher.onDidCreate((uri) => this.onFileEvent(uri, "create"));
+      watcher.onDidChange((uri) => this.onFileEvent(uri, "change"));
+      watcher.onDidDelete((uri) => this.onFileEvent(uri, "delete"));
+      this.watchers.push(watcher);
+    }
+
+    const projectWatcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(this.workspaceRoot, "sfdx-project.json")
+    );
+    projectWatcher.onDidCreate(() => this.invalidate());
+    projectWatcher.onDidChange(() => this.invalidate());
+    projectWatcher.onDidDelete(() => this.invalidate());
+    this.watchers.push(projectWatcher);
+  }
+
+  private stopWatching(): void {
+    this.watchers.forEach((watcher) => watcher.dispose());
+    this.watchers = [];
+  }
+
+  private onFileEvent(
+    uri: vscode.Uri,
+    event: "create" | "change" | "delete"
+  ): void {
+    const filePath = uri.fsPath;
+    const segments = path
+      .relative(this.workspaceRoot, filePath)
+      .split(path.sep);
+    if (
+      !this.building ||
+      segments.includes("node_modules") ||
+      segments.includes(".wormhole")
+    ) {
+      return;
+    }
+
+    // A deleted or renamed folder only reports the folder itself
+    this.removePath(filePath);
+    if (event !== "delete") {
+      this.addPath(filePath);
+    }
+  }
+
+  private addPath(filePath: string): void {
+    let stat: fs.Stats;
+    try {
+      stat = fs.statSync(filePath);
+    } catch {
+      return;
+    }
+
+    if (!stat.isDirectory()) {
+      this.addFile(filePath);
+      return;
+    }
+
+    for (const entry of fs.readdirSync(filePath)) {
+      this.addPath(path.join(filePath, entry));
+    }
+  }
+
+  private addFile(filePath: string): void {
+    const entries = this.classify(filePath);
+    if (entries.length === 0) {
+      return;
+    }
+    this.fileEntries.set(filePath, entries);
+    const folder = path.dirname(filePath);
+    if (!this.folderFiles.has(folder)) {
+      this.folderFiles.set(folder, new Set());
+    }
+    this.folderFiles.get(folder)!.add(filePath);
+
+    for (const entry of entries) {
+      const key = this.key(entry.type, entry.name);
+      const candidates = this.components.get(key) || [];
+      let component = candidates.find(
+        (candidate) => candidate.packageDirectory === entry.packageDirectory
+      );
+      if (!component) {
+        component = {
+          type: entry.type,
+          name: entry.name,
+          packageDirectory: entry.packageDirectory,
+          files: [],
+        };
+        candidates.push(component);
+        this.components.set(key, candidates);
+      }
+      if (!component.files.includes(filePath)) {
+        component.files.push(filePath);
+        component.files.sort((a, b) => a.length - b.length);
+      }
+
+      const dotIndex = entry.name.indexOf(".");
+      if (dotIndex !== -1) {
+        const childKey = this.key(
+          entry.type,
+          entry.name.substring(dotIndex + 1)
+        );
+        if (!this.childNames.has(childKey)) {
+          this.childNames.set(childKey, new Set());
+        }
+        this.childNames.get(childKey)!.add(key);
+      }
+    }
+  }
+
+  /**
+   * Remove a file, or every file below a folder
+   */
+  private removePath(filePath: string): void {
+    if (this.fileEntries.has(filePath)) {
+      this.removeFile(filePath);
+      return;
+    }
+
+    const folderPrefix = filePath + path.sep;
+    const folders = Array.from(this.folderFiles.keys()).filter(
+      (folder) => folder === filePath || folder.startsWith(folderPrefix)
+    );
+    for (const folder of folders) {
+      Array.from(this.folderFiles.get(folder)!).forEach((file) =>
+        this.removeFile(file)
+      );
+    }
+  }
+
+  private removeFile(file: string): void {
+    for (const entry of this.fileEntries.get(file) || []) {
+      const key = this.key(entry.type, entry.name);
+      const candidates = (this.components.get(key) || [])
+        .map((component) => ({
+          ...component,
+          files: component.files.filter((f) => f !== file),
+        }))
+        .filter((component) => component.files.length > 0);
+
+      if (candidates.length > 0) {
+        this.components.set(key, candidates);
+        continue;
+      }
+
+      this.components.delete(key);
+      const dotIndex = entry.name.indexOf(".");
+      if (dotIndex !== -1) {
+        const childKey = this.key(
+          entry.type,
+          entry.name.substring(dotIndex + 1)
+        );
+        this.childNames.get(childKey)?.delete(key);
+      }
+    }
+    this.fileEntries.delete(file);
+
+    const folder = path.dirname(file);
+    this.folderFiles.get(folder)?.delete(file);
+    if (this.folderFiles.get(folder)?.size === 0) {
+      this.folderFiles.delete(folder);
+    }
+  }
+
+  private sortByPackage(components: IndexedComponent[]): IndexedComponent[] {
+    const packageDirectories = this.getPackageDirectories();
+    const rank = (component: IndexedComponent) => {
+      const index = component.packageDirectory
+        ? packageDirectories.indexOf(component.packageDirectory)
+        : -1;
+      return index === -1 ? packageDirectories.length : index;
+    };
+    return [...components].sort((a, b) => rank(a) - rank(b));
+  }
+
+  private countComponents(): number {
+    let count = 0;
+    this.components.forEach((candidates) => (count += candidates.length));
+    return count;
+  }
+
+  private key(type: string, name: string): string {
+    return `${type}:${name}`.toLowerCase();
+  }
+}
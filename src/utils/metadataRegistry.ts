@@ -0,0 +1,525 @@
+import { ComponentInfo } from "../types";
+
+/**
+ * How a metadata type is laid out in source format
+ * - file: one file per component, plus its -meta.xml (classes/Foo.cls)
+ * - bundle: a folder per component (lwc/foo/*, staticresources/Lib/*)
+ * - decomposed: a folder per component whose children live in subfolders
+ *   (objects/Account/fields/Foo__c.field-meta.xml)
+ * - child: stored inside its parent's folder or file (CustomField, CustomLabel)
+ */
+export type MetadataStrategy = "file" | "bundle" | "decomposed" | "child";
+
+export interface MetadataTypeDefinition {
+  name: string; // Metadata API type name, e.g., "ApexClass"
+  directoryName: string; // Source folder, e.g., "classes"
+  suffixes: string[]; // File suffixes without "-meta.xml", e.g., ["cls"]
+  strategy: MetadataStrategy;
+  childTypes?: string[]; // Decomposed children, e.g., CustomObject -> CustomField
+  parentType?: string; // For child types; names are "Parent.Child"
+  inFolder?: boolean; // Components live in folders; names are "Folder/Component"
+  aliases?: string[]; // Other names used in commands and errors, e.g., "lwc"
+}
+
+const METADATA_TYPES: MetadataTypeDefinition[] = [
+  // Code
+  {
+    name: "ApexClass",
+    directoryName: "classes",
+    suffixes: ["cls"],
+    strategy: "file",
+  },
+  {
+    name: "ApexTrigger",
+    directoryName: "triggers",
+    suffixes: ["trigger"],
+    strategy: "file",
+  },
+  {
+    name: "ApexPage",
+    directoryName: "pages",
+    suffixes: ["page"],
+    strategy: "file",
+  },
+  {
+    name: "ApexComponent",
+    directoryName: "components",
+    suffixes: ["component"],
+    strategy: "file",
+  },
+  {
+    name: "ApexTestSuite",
+    directoryName: "testSuites",
+    suffixes: ["testSuite"],
+    strategy: "file",
+  },
+  {
+    name: "LightningComponentBundle",
+    directoryName: "lwc",
+    suffixes: [],
+    strategy: "bundle",
+    aliases: ["lwc"],
+  },
+  {
+    name: "AuraDefinitionBundle",
+    directoryName: "aura",
+    suffixes: [],
+    strategy: "bundle",
+    aliases: ["aura"],
+  },
+  {
+    name: "StaticResource",
+    directoryName: "staticresources",
+    suffixes: ["resource"],
+    strategy: "bundle", // An expanded folder or a single content file
+  },
+  {
+    name: "ContentAsset",
+    directoryName: "contentassets",
+    suffixes: ["asset"],
+    strategy: "file",
+  },
+
+  // Objects and their decomposed children
+  {
+    name: "CustomObject",
+    directoryName: "objects",
+    suffixes: ["object"],
+    strategy: "decomposed",
+    childTypes: [
+      "CustomField",
+      "ValidationRule",
+      "RecordType",
+      "ListView",
+      "BusinessProcess",
+      "WebLink",
+      "FieldSet",
+      "CompactLayout",
+      "SharingReason",
+    ],
+  },
+  {
+    name: "CustomField",
+    directoryName: "fields",
+    suffixes: ["field"],
+    strategy: "child",
+    parentType: "CustomObject",
+  },
+  {
+    name: "ValidationRule",
+    directoryName: "validationRules",
+    suffixes: ["validationRule"],
+    strategy: "child",
+    parentType: "CustomObject",
+  },
+  {
+    name: "RecordType",
+    directoryName: "recordTypes",
+    suffixes: ["recordType"],
+    strategy: "child",
+    parentType: "CustomObject",
+  },
+  {
+    name: "ListView",
+    directoryName: "listViews",
+    suffixes: ["listView"],
+    strategy: "child",
+    parentType: "CustomObject",
+  },
+  {
+    name: "BusinessProcess",
+    directoryName: "businessProcesses",
+    suffixes: ["businessProcess"],
+    strategy: "child",
+    parentType: "CustomObject",
+  },
+  {
+    name: "WebLink",
+    directoryName: "webLinks",
+    suffixes: ["webLink"],
+    strategy: "child",
+    parentType: "CustomObject",
+  },
+  {
+    name: "FieldSet",
+    directoryName: "fieldSets",
+    suffixes: ["fieldSet"],
+    strategy: "child",
+    parentType: "CustomObject",
+  },
+  {
+    name: "CompactLayout",
+    directoryName: "compactLayouts",
+    suffixes: ["compactLayout"],
+    strategy: "child",
+    parentType: "CustomObject",
+  },
+  {
+    name: "SharingReason",
+    directoryName: "sharingReasons",
+    suffixes: ["sharingReason"],
+    strategy: "child",
+    parentType: "CustomObject",
+  },
+
+  // Labels: one file holds every label
+  {
+    name: "CustomLabels",
+    directoryName: "labels",
+    suffixes: ["labels"],
+    strategy: "file",
+    childTypes: ["CustomLabel"],
+  },
+  {
+    name: "CustomLabel",
+    directoryName: "labels",
+    suffixes: [],
+    strategy: "child",
+    parentType: "CustomLabels",
+  },
+
+  // Configuration
+  {
+    name: "CustomMetadata",
+    directoryName: "customMetadata",
+    suffixes: ["md"],
+    strategy: "file",
+  },
+  {
+    name: "CustomTab",
+    directoryName: "tabs",
+    suffixes: ["tab"],
+    strategy: "file",
+  },
+  {
+    name: "CustomApplication",
+    directoryName: "applications",
+    suffixes: ["app"],
+    strategy: "file",
+  },
+  {
+    name: "Layout",
+    directoryName: "layouts",
+    suffixes: ["layout"],
+    strategy: "file",
+  },
+  {
+    name: "FlexiPage",
+    directoryName: "flexipages",
+    suffixes: ["flexipage"],
+    strategy: "file",
+  },
+  {
+    name: "Flow",
+    directoryName: "flows",
+    suffixes: ["flow"],
+    strategy: "file",
+  },
+  {
+    name: "FlowDefinition",
+    directoryName: "flowDefinitions",
+    suffixes: ["flowDefinition"],
+    strategy: "file",
+  },
+  {
+    name: "QuickAction",
+    directoryName: "quickActions",
+    suffixes: ["quickAction"],
+    strategy: "file",
+  },
+  {
+    name: "GlobalValueSet",
+    directoryName: "globalValueSets",
+    suffixes: ["globalValueSet"],
+    strategy: "file",
+  },
+  {
+    name: "StandardValueSet",
+    directoryName: "standardValueSets",
+    suffixes: ["standardValueSet"],
+    strategy: "file",
+  },
+  {
+    name: "PathAssistant",
+    directoryName: "pathAssistants",
+    suffixes: ["pathAssistant"],
+    strategy: "file",
+  },
+  {
+    name: "LightningMessageChannel",
+    directoryName: "messageChannels",
+    suffixes: ["messageChannel"],
+    strategy: "file",
+  },
+  {
+    name: "CustomNotificationType",
+    directoryName: "notificationtypes",
+    suffixes: ["notiftype"],
+    strategy: "file",
+  },
+  {
+    name: "ConversationMessageDefinition",
+    directoryName: "conversationMessageDefinitions",
+    suffixes: ["conversationMessageDefinition"],
+    strategy: "file",
+  },
+  {
+    name: "ReportType",
+    directoryName: "reportTypes",
+    suffixes: ["reportType"],
+    strategy: "file",
+  },
+  {
+    name: "Workflow",
+    directoryName: "workflows",
+    suffixes: ["workflow"],
+    strategy: "file",
+  },
+  {
+    name: "AssignmentRules",
+    directoryName: "assignmentRules",
+    suffixes: ["assignmentRules"],
+    strategy: "file",
+  },
+  {
+    name: "SharingRules",
+    directoryName: "sharingRules",
+    suffixes: ["sharingRules"],
+    strategy: "file",
+  },
+
+  // Security and integration
+  {
+    name: "PermissionSet",
+    directoryName: "permissionsets",
+    suffixes: ["permissionset"],
+    strategy: "file",
+  },
+  {
+    name: "PermissionSetGroup",
+    directoryName: "permissionsetgroups",
+    suffixes: ["permissionsetgroup"],
+    strategy: "file",
+  },
+  {
+    name: "Profile",
+    directoryName: "profiles",
+    suffixes: ["profile"],
+    strategy: "file",
+  },
+  {
+    name: "CustomPermission",
+    directoryName: "customPermissions",
+    suffixes: ["customPermission"],
+    strategy: "file",
+  },
+  {
+    name: "Group",
+    directoryName: "groups",
+    suffixes: ["group"],
+    strategy: "file",
+  },
+  {
+    name: "Queue",
+    directoryName: "queues",
+    suffixes: ["queue"],
+    strategy: "file",
+  },
+  {
+    name: "Role",
+    directoryName: "roles",
+    suffixes: ["role"],
+    strategy: "file",
+  },
+  {
+    name: "NamedCredential",
+    directoryName: "namedCredentials",
+    suffixes: ["namedCredential"],
+    strategy: "file",
+  },
+  {
+    name: "ExternalCredential",
+    directoryName: "externalCredentials",
+    suffixes: ["externalCredential"],
+    strategy: "file",
+  },
+  {
+    name: "RemoteSiteSetting",
+    directoryName: "remoteSiteSettings",
+    suffixes: ["remoteSite"],
+    strategy: "file",
+  },
+
+  // Folder-based types
+  {
+    name: "Report",
+    directoryName: "reports",
+    suffixes: ["report"],
+    strategy: "file",
+    inFolder: true,
+  },
+  {
+    name: "Dashboard",
+    directoryName: "dashboards",
+    suffixes: ["dashboard"],
+    strategy: "file",
+    inFolder: true,
+  },
+  {
+    name: "Document",
+    directoryName: "documents",
+    suffixes: ["document"],
+    strategy: "file",
+    inFolder: true,
+  },
+  {
+    name: "EmailTemplate",
+    directoryName: "email",
+    suffixes: ["email"],
+    strategy: "file",
+    inFolder: true,
+  },
+];
+
+/**
+ * Single source of truth for metadata type knowledge: folder names, file
+ * suffixes, bundles, decomposed children and folder-based types
+ */
+export class MetadataRegistry {
+  private static byName: Map<string, MetadataTypeDefinition> | null = null;
+  private static byDirectory: Map<string, MetadataTypeDefinition> | null = null;
+
+  /**
+   * Every registered metadata type
+   */
+  public static getTypes(): MetadataTypeDefinition[] {
+    return METADATA_TYPES;
+  }
+
+  /**
+   * Look up a type by name or alias, case-insensitively
+   */
+  public static getType(typeName: string): MetadataTypeDefinition | undefined {
+    return this.getNameMap().get(typeName.toLowerCase());
+  }
+
+  /**
+   * Canonical Metadata API name for a type, e.g., "lwc" -> "LightningComponentBundle"
+   * Unknown types are returned unchanged
+   */
+  public static getTypeName(typeName: string): string {
+    return this.getType(typeName)?.name || typeName;
+  }
+
+  /**
+   * The top-level type stored in a source folder, e.g., "classes" -> ApexClass
+   */
+  public static getTypeByDirectory(
+    directoryName: string
+  ): MetadataTypeDefinition | undefined {
+    return this.getDirectoryMap().get(directoryName);
+  }
+
+  /**
+   * Determine component type and name from a path relative to its package directory
+   * e.g., "main/default/layouts/Account-Account Layout.layout-meta.xml"
+   *   -> { type: "Layout", name: "Account-Account Layout" }
+   * Relative to the workspace, a folder above the package directory that is
+   * named like a type folder (components, reports, ...) would decide the type
+   */
+  public static resolvePath(relativePath: string): ComponentInfo | null {
+    const segments = relativePath.split(/[\\/]/).filter((s) => s.length > 0);
+
+    // The first folder named after a top-level type decides the type
+    const index = segments.findIndex((segment) =>
+      this.getDirectoryMap().has(segment)
+    );
+    if (index === -1) {
+      return null;
+    }
+
+    const definition = this.getDirectoryMap().get(segments[index])!;
+    const rest = segments.slice(index + 1);
+    if (rest.length === 0) {
+      // The type folder itself
+      return null;
+    }
+
+    if (definition.inFolder) {
+      if (rest.length < 2) {
+        // Folder metadata (e.g., MyFolder.reportFolder-meta.xml)
+        return null;
+      }
+      const folders = rest.slice(0, -1).join("/");
+      return {
+        type: definition.name,
+        name: `${folders}/${this.stripSuffix(rest[rest.length - 1])}`,
+      };
+    }
+
+    if (definition.strategy === "decomposed") {
+      // Metadata API format keeps the whole object in one file: "Account.object"
+      const parentName =
+        rest.length === 1 ? this.stripSuffix(rest[0]) : rest[0];
+      const child =
+        rest.length >= 3
+          ? (definition.childTypes || [])
+              .map((childType) => this.getType(childType))
+              .find((childType) => childType?.directoryName === rest[1])
+          : undefined;
+      if (child) {
+        return {
+          type: child.name,
+          name: `${parentName}.${this.stripSuffix(rest[rest.length - 1])}`,
+        };
+      }
+      return { type: definition.name, name: parentName };
+    }
+
+    if (definition.strategy === "bundle") {
+      // Bundle names can't contain dots: "Lib.resource-meta.xml", "Lib.zip" -> "Lib"
+      return { type: definition.name, name: rest[0].split(".")[0] };
+    }
+
+    // Single file types may be nested in subfolders (classes/utils/Foo.cls)
+    return {
+      type: definition.name,
+      name: this.stripSuffix(rest[rest.length - 1]),
+    };
+  }
+
+  /**
+   * Strip the "-meta.xml" and type suffix from a metadata file name
+   * e.g., "My_Flow.flow-meta.xml" -> "My_Flow", "Config.Default.md-meta.xml" -> "Config.Default"
+   */
+  public static stripSuffix(fileName: string): string {
+    const baseName = fileName.replace(/-meta\.xml$/, "");
+    return baseName.substring(0, baseName.lastIndexOf(".")) || baseName;
+  }
+
+  private static getNameMap(): Map<string, MetadataTypeDefinition> {
+    if (!this.byName) {
+      this.byName = new Map();
+      for (const definition of METADATA_TYPES) {
+        this.byName.set(definition.name.toLowerCase(), definition);
+        (definition.aliases || []).forEach((alias) =>
+          this.byName!.set(alias.toLowerCase(), definition)
+        );
+      }
+    }
+    return this.byName;
+  }
+
+  private static getDirectoryMap(): Map<string, MetadataTypeDefinition> {
+    if (!this.byDirectory) {
+      this.byDirectory = new Map();
+      // Child folders only count below their parent's folder
+      METADATA_TYPES.filter(
+        (definition) => definition.strategy !== "child"
+      ).forEach((definition) =>
+        this.byDirectory!.set(definition.directoryName, definition)
+      );
+    }
+    return this.byDirectory;
+  }
+}
@@ -2,6 +2,7 @@ import * as vscode from "vscode";
 import { exec } from "child_process";
 import { promisify } from "util";
 import { CLIExecutor } from "./cliExecutor";
+import { PromptQueue } from "./promptQueue";
 import { OrgConfig } from "../types";
 
 const execAsync = promisify(exec);
@@ -20,15 +21,17 @@ export class OAuthHandler {
   public async authenticate(alias?: string): Promise<boolean> {
     try {
       // Prompt user to select org type
-      const orgType = await vscode.window.showQuickPick(
-        [
-          { label: "Production", value: "production" },
-          { label: "Sandbox", value: "sandbox" },
-        ],
-        {
-          placeHolder: "Select the type of Salesforce org",
-          title: "Org Type Selection",
-        }
+      const orgType = await PromptQueue.run(() =>
+        vscode.window.showQuickPick(
+          [
+            { label: "Production", value: "production" },
+            { label: "Sandbox", value: "sandbox" },
+          ],
+          {
+            placeHolder: "Select the type of Salesforce org",
+            title: "Org Type Selection",
+          }
+        )
       );
 
       if (!orgType) {
@@ -110,6 +113,22 @@ export class OAuthHandler {
     }
   }
 
+  /**
+   * Username of an org alias, or of the default org without one
+   * Aliases and usernames name the same org in different ways; the username is unique
+   */
+  public async getOrgUsername(orgAlias?: string): Promise<string | undefined> {
+    try {
+      const { stdout } = await execAsync(
+        `sf org display --json${orgAlias ? ` --target-org ${orgAlias}` : ""}`,
+        { cwd: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath }
+      );
+      return JSON.parse(stdout).result?.username;
+    } catch {
+      return undefined;
+    }
+  }
+
   /**
    * Get default org alias
    */
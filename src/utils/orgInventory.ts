@@ -0,0 +1,330 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { exec } from "child_process";
+import { promisify } from "util";
+import { ComponentInfo } from "../types";
+import { ComponentLocator } from "./componentLocator";
+import { MetadataRegistry } from "./metadataRegistry";
+
+const execAsync = promisify(exec);
+
+// Org metadata changes rarely during a session; listings are reused for this long
+const CACHE_TTL_MS = 10 * 60 * 1000;
+const LISTING_ATTEMPTS = 2;
+
+interface TypeListing {
+  fetchedAt: number;
+  names: Set<string>; // Lower-case full names
+}
+
+/**
+ * Knows which components already exist in an org, from
+ * `sf org list metadata`, cached per org and metadata type
+ */
+export class OrgInventory {
+  private workspaceRoot: string;
+  private componentLocator: ComponentLocator;
+  private outputChannel: vscode.OutputChannel;
+  // org -> metadata type -> listing
+  private listings: Map<string, Map<string, TypeListing>> = new Map();
+
+  constructor(
+    workspaceRoot: string,
+    componentLocator: ComponentLocator,
+    outputChannel: vscode.OutputChannel
+  ) {
+    this.workspaceRoot = workspaceRoot;
+    this.componentLocator = componentLocator;
+    this.outputChannel = outputChannel;
+  }
+
+  /**
+   * Split components into those the org lacks and those it already has
+   * With compare, existing components whose org copy differs from local count as missing
+   * Components of a type that can't be listed are unchecked
+   */
+  public async partition(
+    components: ComponentInfo[],
+    orgAlias: string | undefined,
+    compare: boolean
+  ): Promise<{
+    missing: ComponentInfo[];
+    existing: ComponentInfo[];
+    unchecked: ComponentInfo[];
+  }> {
+    const missing: ComponentInfo[] = [];
+    const unchecked: ComponentInfo[] = [];
+    let existing: ComponentInfo[] = [];
+
+    // One listing per type, even when listing fails
+    const listings = new Map<string, Set<string> | null>();
+    for (const component of components) {
+      const type = MetadataRegistry.getTypeName(component.type);
+      if (!listings.has(type)) {
+        listings.set(type, await this.getListing(type, orgAlias));
+      }
+      const names = listings.get(type);
+      if (!names) {
+        unchecked.push(component);
+      } else if (names.has(component.name.toLowerCase())) {
+        existing.push(component);
+      } else {
+        missing.push(component);
+      }
+    }
+
+    if (compare && existing.length > 0) {
+      const changed = await this.findChanged(existing, orgAlias);
+      missing.push(...changed);
+      existing = existing.filter((component) => !changed.includes(component));
+    }
+
+    return { missing, existing, unchecked };
+  }
+
+  /**
+   * Forget the cached listings of one org, or of every org
+   * Called after a deploy to the org and when the default org changes
+   */
+  public clear(orgAlias?: string): void {
+    if (orgAlias) {
+      this.listings.delete(this.orgKey(orgAlias));
+    } else {
+      this.listings.clear();
+    }
+  }
+
+  /**
+   * Full names of the org's components of a type, or null when they can't be listed
+   */
+  private async getListing(
+    type: string,
+    orgAlias: string | undefined
+  ): Promise<Set<string> | null> {
+    const orgKey = this.orgKey(orgAlias);
+    if (!this.listings.has(orgKey)) {
+      this.listings.set(orgKey, new Map());
+    }
+    const orgListings = this.listings.get(orgKey)!;
+
+    const cached = orgListings.get(type);
+    if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+      return cached.names;
+    }
+
+    const args = ["--metadata-type", type, "--json"];
+    if (orgAlias) {
+      args.push("--target-org", orgAlias);
+    }
+
+    // A listing that fails once (e.g., a timeout) is tried again before giving up
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const { stdout } = await execAsync(
+          `sf org list metadata ${args.join(" ")}`,
+          { cwd: this.workspaceRoot, maxBuffer: 10 * 1024 * 1024 }
+        );
+        const result = JSON.parse(stdout).result;
+        // A single component comes back as an object, none as undefined
+        const entries: { fullName: string }[] = Array.isArray(result)
+          ? result
+          : result
+          ? [result]
+          : [];
+        const names = new Set(
+          entries.map((entry) => entry.fullName.toLowerCase())
+        );
+        orgListings.set(type, { fetchedAt: Date.now(), names });
+        this.outputChannel.appendLine(
+          `   Org inventory: ${names.size} ${type} component(s) in ${orgKey}`
+        );
+        return names;
+      } catch (error: any) {
+        this.outputChannel.appendLine(
+          `   ⚠ Could not list ${type} in ${orgKey}${
+            attempt < LISTING_ATTEMPTS ? ", retrying" : ""
+          }: ${error.message}`
+        );
+        if (attempt >= LISTING_ATTEMPTS) {
+          return null;
+        }
+      }
+    }
+  }
+
+  /**
+   * Retrieve the components into a temporary directory and return those
+   * whose org copy differs from the local files
+   */
+  private async findChanged(
+    components: ComponentInfo[],
+    orgAlias: string | undefined
+  ): Promise<ComponentInfo[]> {
+    if (this.componentLocator.getProjectFormat() === "metadata") {
+      // Retrieves come back in source format, which can't be compared with Metadata API files
+      this.outputChannel.appendLine(
+        "   Content comparison needs a source format project; comparing by name only"
+      );
+      return [];
+    }
+
+    const retrieveDir = fs.mkdtempSync(path.join(os.tmpdir(), "wormhole-"));
+    try {
+      const args = components.map(
+        (component) =>
+          `--metadata "${MetadataRegistry.getTypeName(component.type)}:${
+            component.name
+          }"`
+      );
+      args.push("--output-dir", `"${retrieveDir}"`, "--json");
+      if (orgAlias) {
+        args.push("--target-org", orgAlias);
+      }
+
+      try {
+        await execAsync(`sf project retrieve start ${args.join(" ")}`, {
+          cwd: this.workspaceRoot,
+          maxBuffer: 10 * 1024 * 1024,
+        });
+      } catch (error: any) {
+        // Without the org copies nothing can be shown to be identical
+        this.outputChannel.appendLine(
+          `   ⚠ Could not retrieve components for comparison: ${error.message}`
+        );
+        return components;
+      }
+
+      const retrieved = new Map<string, string>();
+      for (const file of this.listFiles(retrieveDir)) {
+        const key = this.comparisonKey(path.relative(retrieveDir, file));
+        if (key) {
+          retrieved.set(key, file);
+        }
+      }
+
+      const changed: ComponentInfo[] = [];
+      for (const component of components) {
+        const files = await this.componentLocator.getComponentFiles(component);
+        const verdicts = files.map((file) => {
+          // Below the package directory, so folders above it can't pass for type folders
+          const packageDirectory =
+            this.componentLocator.getPackageDirectory(file) || "";
+          const key = this.comparisonKey(
+            path.relative(path.join(this.workspaceRoot, packageDirectory), file)
+          );
+          return OrgInventory.differs(
+            component,
+            file,
+            key ? retrieved.get(key) : undefined
+          );
+        });
+        if (verdicts.includes(true)) {
+          changed.push(component);
+        } else if (verdicts.includes(null)) {
+          this.outputChannel.appendLine(
+            `   ${component.type} ${component.name} wasn't found in its local file; comparing by name only`
+          );
+        }
+      }
+      return changed;
+    } finally {
+      fs.rmSync(retrieveDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Whether a local file differs from its retrieved org copy (undefined when none came back)
+   * A child stored in a shared file, e.g., a label in CustomLabels.labels-meta.xml,
+   * compares only its own element, since the retrieve returns just the requested children;
+   * null when that element can't be found locally, so the child is compared by name only
+   */
+  public static differs(
+    component: ComponentInfo,
+    localFile: string,
+    orgFile: string | undefined
+  ): boolean | null {
+    const definition = MetadataRegistry.getType(component.type);
+    const parent =
+      definition?.parentType && MetadataRegistry.getType(definition.parentType);
+    if (!definition || !parent || parent.strategy !== "file") {
+      return (
+        !orgFile ||
+        OrgInventory.normalize(localFile) !== OrgInventory.normalize(orgFile)
+      );
+    }
+
+    // Child elements are named after the source format folders: <labels>, ...
+    const name = component.name.split(".").pop()!;
+    const localElement = OrgInventory.findElement(
+      OrgInventory.normalize(localFile),
+      definition.directoryName,
+      name
+    );
+    if (localElement === null) {
+      return null;
+    }
+    const orgElement = orgFile
+      ? OrgInventory.findElement(
+          OrgInventory.normalize(orgFile),
+          definition.directoryName,
+          name
+        )
+      : null;
+    return orgElement !== localElement;
+  }
+
+  /**
+   * The <element> whose fullName is the given name, without the whitespace between tags
+   */
+  private static findElement(
+    content: string,
+    element: string,
+    name: string
+  ): string | null {
+    const escapedName = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const match = content.match(
+      new RegExp(
+        `<${element}>\\s*<fullName>\\s*${escapedName}\\s*</fullName>[\\s\\S]*?</${element}>`
+      )
+    );
+    return match ? match[0].replace(/>\s+</g, "><") : null;
+  }
+
+  /**
+   * Path from the metadata type folder on, e.g., "objects/Invoice__c/fields/Status__c.field-meta.xml",
+   * so local and retrieved files line up whatever their package directory
+   * Takes a path relative to the package directory or the retrieve directory
+   */
+  private comparisonKey(relativePath: string): string | null {
+    const segments = relativePath.split(/[\\/]/);
+    const typeIndex = segments.findIndex((segment) =>
+      MetadataRegistry.getTypeByDirectory(segment)
+    );
+    return typeIndex === -1
+      ? null
+      : segments.slice(typeIndex).join("/").toLowerCase();
+  }
+
+  private static normalize(filePath: string): string {
+    return fs.readFileSync(filePath, "utf8").replace(/\r\n/g, "\n").trim();
+  }
+
+  private listFiles(folder: string): string[] {
+    const files: string[] = [];
+    for (const entry of fs.readdirSync(folder, { withFileTypes: true })) {
+      const entryPath = path.join(folder, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...this.listFiles(entryPath));
+      } else {
+        files.push(entryPath);
+      }
+    }
+    return files;
+  }
+
+  private orgKey(orgAlias: string | undefined): string {
+    return orgAlias || "default org";
+  }
+}
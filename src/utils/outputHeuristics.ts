@@ -0,0 +1,179 @@
+import { DeployResultDetails } from "../types";
+import { DeployResultParser } from "./deployResultParser";
+
+/**
+ * Verdict on a CLI command's output that exited with code 0
+ */
+export interface OutputVerdict {
+  success: boolean;
+  details: DeployResultDetails | null; // Structured result when the command ran with --json
+  isMetadataApiFinalizationError: boolean;
+  isValidationOnly: boolean;
+}
+
+/**
+ * Text heuristics that decide whether a CLI deploy succeeded
+ * Kept free of VS Code APIs so saved responses can be replayed headless
+ */
+export class OutputHeuristics {
+  /**
+   * Decide whether a command that exited with code 0 succeeded
+   */
+  public static evaluate(
+    stdout: string,
+    stderr: string,
+    useJson: boolean
+  ): OutputVerdict {
+    // Structured --json results take precedence over text heuristics
+    const details = useJson ? DeployResultParser.parse(stdout) : null;
+    if (details) {
+      return {
+        success: details.success,
+        details,
+        isMetadataApiFinalizationError: false,
+        isValidationOnly: false,
+      };
+    }
+
+    const output = stdout + stderr;
+
+    // Check if deployment actually succeeded (even if there's stderr output)
+    const deploymentSucceeded = this.isDeploymentSuccess(output);
+
+    // Check if this is just a Metadata API finalization error (deployment may have succeeded)
+    const isMetadataApiFinalizationError =
+      this.isMetadataApiFinalizationError(stderr);
+
+    // Check if there are actual deployment errors (not just validation warnings)
+    // For --metadata deployments, validation errors about unrelated files can occur
+    // but the actual deployment might still succeed
+    const isValidationOnly = this.isValidationWarningOnly(stderr);
+    const hasActualDeploymentErrors = this.hasActualDeploymentErrors(output);
+
+    // If deployment succeeded OR it's just a Metadata API finalization error, don't treat as error
+    // (Metadata API finalization errors often occur even when deployment succeeds)
+    const hasErrors =
+      !deploymentSucceeded &&
+      !isMetadataApiFinalizationError &&
+      (hasActualDeploymentErrors || (stderr.length > 0 && !isValidationOnly));
+
+    return {
+      success: !hasErrors,
+      details: null,
+      isMetadataApiFinalizationError,
+      isValidationOnly,
+    };
+  }
+
+  /**
+   * Check if output contains error keywords
+   */
+  public static hasErrorKeywords(output: string): boolean {
+    const errorKeywords = [
+      "ERROR",
+      "FAILED",
+      "Error:",
+      "deployment failed",
+      "Deployment Failed",
+      "does not exist",
+      "Invalid",
+    ];
+
+    const lowerOutput = output.toLowerCase();
+    return errorKeywords.some((keyword) =>
+      lowerOutput.includes(keyword.toLowerCase())
+    );
+  }
+
+  /**
+   * Check if stderr contains only validation warnings (not actual deployment errors)
+   * Validation warnings about unrelated files can be ignored
+   */
+  public static isValidationWarningOnly(stderr: string): boolean {
+    const validationWarningPatterns = [
+      "Could not infer a metadata type",
+      "Did you mean",
+      "metadata type lookup",
+      "Additional suggestions",
+      "Validate against the registry",
+      "cannot also be provided when using", // Flag conflicts
+    ];
+
+    const lowerStderr = stderr.toLowerCase();
+    const hasValidationWarning = validationWarningPatterns.some((pattern) =>
+      lowerStderr.includes(pattern.toLowerCase())
+    );
+
+    return hasValidationWarning;
+  }
+
+  /**
+   * Check if deployment actually succeeded
+   */
+  public static isDeploymentSuccess(output: string): boolean {
+    const successPatterns = [
+      "status: succeeded",
+      "status:succeeded",
+      "succeeded |",
+      "state.*created",
+      "state.*unchanged",
+      "deployed source",
+      "deployment succeeded",
+      "deployed successfully",
+    ];
+
+    const lowerOutput = output.toLowerCase();
+    return successPatterns.some((pattern) => {
+      const regex = new RegExp(pattern, "i");
+      return regex.test(lowerOutput);
+    });
+  }
+
+  /**
+   * Check if stderr contains only Metadata API finalization error
+   * This error often occurs even when deployment succeeds
+   */
+  public static isMetadataApiFinalizationError(stderr: string): boolean {
+    const finalizationErrorPatterns = [
+      "Missing message metadata.transfer:Finalizing",
+      "Metadata API request failed.*Finalizing",
+    ];
+
+    const lowerStderr = stderr.toLowerCase();
+    const hasFinalizationError = finalizationErrorPatterns.some((pattern) => {
+      const regex = new RegExp(pattern, "i");
+      return regex.test(lowerStderr);
+    });
+
+    // Only treat as finalization error if there are no actual component failures
+    const hasComponentFailures =
+      lowerStderr.includes("component failures") ||
+      lowerStderr.includes("componentfailures");
+
+    return hasFinalizationError && !hasComponentFailures;
+  }
+
+  /**
+   * Check if output contains actual deployment errors (not just validation warnings)
+   */
+  public static hasActualDeploymentErrors(output: string): boolean {
+    const actualErrorPatterns = [
+      "component failures",
+      "deployment failed",
+      "failed to deploy",
+      "component deployment error",
+      "does not exist", // Missing dependency
+      "compilation failed",
+      "test failures",
+      "invalid type:", // Dependency error
+    ];
+
+    const lowerOutput = output.toLowerCase();
+    const hasActualError = actualErrorPatterns.some((pattern) =>
+      lowerOutput.includes(pattern.toLowerCase())
+    );
+
+    // If we see success indicators, it's not an actual error
+    return hasActualError && !this.isDeploymentSuccess(output);
+  }
+}
@@ -1,7 +1,8 @@
 import * as vscode from "vscode";
 import * as fs from "fs";
 import * as path from "path";
-import { ComponentInfo } from "../types";
+import { ComponentInfo, TestLevel, ValidationRecord } from "../types";
+import { MetadataRegistry } from "./metadataRegistry";
 
 export class PackageXmlGenerator {
   /**
@@ -41,14 +42,17 @@ ${typesXml}  <version>${apiVersion}</version>
 
   /**
    * Create a package.xml file and return its path
-   * Files are saved with timestamps so they can be referenced later
+   * Files are saved with timestamps so they can be referenced later, and named
+   * after their job so jobs running side by side never write the same file
    */
   public static async createTempPackageXml(
     components: ComponentInfo[],
     workspaceRoot: string,
     apiVersion?: string,
     outputChannel?: vscode.OutputChannel,
-    attemptNumber?: number
+    attemptNumber?: number,
+    metadataRoot?: string | null, // Metadata API format projects: the folder holding package.xml
+    jobId?: number
   ): Promise<string> {
     // Try to detect API version from existing package.xml or use default
     if (outputChannel) {
@@ -57,7 +61,11 @@ ${typesXml}  <version>${apiVersion}</version>
 
     const detectedApiVersion =
       apiVersion ||
-      (await this.detectApiVersion(workspaceRoot, outputChannel)) ||
+      (await this.detectApiVersion(
+        workspaceRoot,
+        outputChannel,
+        metadataRoot
+      )) ||
       "60.0";
 
     if (outputChannel) {
@@ -72,11 +80,12 @@ ${typesXml}  <version>${apiVersion}</version>
       fs.mkdirSync(manifestDir, { recursive: true });
     }
 
-    // Generate filename with timestamp and attempt number
+    // Generate filename with timestamp, job and attempt number
     const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-    const attemptSuffix =
-      attemptNumber !== undefined ? `-attempt-${attemptNumber}` : "";
-    const filename = `package${attemptSuffix}-${timestamp}.xml`;
+    const filename = `package${this.getFileSuffix(
+      attemptNumber,
+      jobId
+    )}-${timestamp}.xml`;
     const tempPath = path.join(manifestDir, filename);
 
     // Debug: Show package.xml content
@@ -97,6 +106,41 @@ ${typesXml}  <version>${apiVersion}</version>
     return tempPath;
   }
 
+  /**
+   * Build a Metadata API format deploy directory for `sf project deploy start --metadata-dir`
+   * Copies the manifest as package.xml and each file under its path relative to metadataRoot
+   */
+  public static createMetadataDeployDir(
+    manifestPath: string,
+    files: string[],
+    metadataRoot: string,
+    workspaceRoot: string,
+    attemptNumber?: number,
+    jobId?: number
+  ): string {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const deployDir = path.join(
+      workspaceRoot,
+      ".wormhole",
+      "mdapi",
+      `deploy${this.getFileSuffix(attemptNumber, jobId)}-${timestamp}`
+    );
+    fs.mkdirSync(deployDir, { recursive: true });
+
+    fs.copyFileSync(manifestPath, path.join(deployDir, "package.xml"));
+    for (const file of new Set(files)) {
+      const relativePath = path.relative(metadataRoot, file);
+      if (relativePath.startsWith("..") || !fs.existsSync(file)) {
+        continue;
+      }
+      const target = path.join(deployDir, relativePath);
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.copyFileSync(file, target);
+    }
+
+    return deployDir;
+  }
+
   /**
    * Save deployment response/output to a file
    */
@@ -104,7 +148,8 @@ ${typesXml}  <version>${apiVersion}</version>
     output: string,
     workspaceRoot: string,
     attemptNumber?: number,
-    success: boolean = false
+    success: boolean = false,
+    jobId?: number
   ): string {
     // Create responses directory if it doesn't exist
     const responsesDir = path.join(workspaceRoot, ".wormhole", "responses");
@@ -112,32 +157,110 @@ ${typesXml}  <version>${apiVersion}</version>
       fs.mkdirSync(responsesDir, { recursive: true });
     }
 
-    // Generate filename with timestamp and attempt number
+    // Generate filename with timestamp, job and attempt number
     const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-    const attemptSuffix =
-      attemptNumber !== undefined ? `-attempt-${attemptNumber}` : "";
     const statusSuffix = success ? "-success" : "-failed";
-    const filename = `response${attemptSuffix}${statusSuffix}-${timestamp}.txt`;
+    const filename = `response${this.getFileSuffix(
+      attemptNumber,
+      jobId
+    )}${statusSuffix}-${timestamp}.txt`;
     const responsePath = path.join(responsesDir, filename);
 
     fs.writeFileSync(responsePath, output, "utf8");
     return responsePath;
   }
 
+  /**
+   * List saved deployment responses, newest first
+   */
+  public static listDeploymentResponses(workspaceRoot: string): string[] {
+    const responsesDir = path.join(workspaceRoot, ".wormhole", "responses");
+    if (!fs.existsSync(responsesDir)) {
+      return [];
+    }
+
+    return fs
+      .readdirSync(responsesDir)
+      .filter((file) => file.startsWith("response"))
+      .map((file) => path.join(responsesDir, file))
+      .sort((a, b) => fs.statSync(b).mtimeMs - fs.statSync(a).mtimeMs);
+  }
+
+  /**
+   * Save a validation record next to the manifest it validated and return its path
+   */
+  public static saveValidationRecord(record: ValidationRecord): string {
+    const recordPath = this.getValidationRecordPath(record.manifestPath);
+    fs.writeFileSync(
+      recordPath,
+      JSON.stringify(record, null, 2) + "\n",
+      "utf8"
+    );
+    return recordPath;
+  }
+
+  /**
+   * List saved validation records, newest first
+   */
+  public static listValidationRecords(
+    workspaceRoot: string
+  ): ValidationRecord[] {
+    const manifestDir = path.join(workspaceRoot, ".wormhole", "manifests");
+    if (!fs.existsSync(manifestDir)) {
+      return [];
+    }
+
+    const records: ValidationRecord[] = [];
+    for (const file of fs.readdirSync(manifestDir)) {
+      if (!file.endsWith(".validation.json")) {
+        continue;
+      }
+      try {
+        records.push(
+          JSON.parse(fs.readFileSync(path.join(manifestDir, file), "utf8"))
+        );
+      } catch {
+        // Hand-edited or truncated record; it can't be quick deployed anyway
+      }
+    }
+    return records.sort((a, b) => b.validatedAt.localeCompare(a.validatedAt));
+  }
+
+  /**
+   * Save the test level and tests a deploy runs next to its manifest and return the path
+   */
+  public static saveTestSelection(
+    manifestPath: string,
+    testLevel: TestLevel,
+    tests: string[]
+  ): string {
+    const selectionPath = manifestPath.replace(/\.xml$/, "") + ".tests.json";
+    fs.writeFileSync(
+      selectionPath,
+      JSON.stringify({ testLevel, tests }, null, 2) + "\n",
+      "utf8"
+    );
+    return selectionPath;
+  }
+
+  /**
+   * Job and attempt part of a saved file's name, e.g., "-job-3-attempt-2"
+   */
+  private static getFileSuffix(attemptNumber?: number, jobId?: number): string {
+    return `${jobId !== undefined ? `-job-${jobId}` : ""}${
+      attemptNumber !== undefined ? `-attempt-${attemptNumber}` : ""
+    }`;
+  }
+
+  private static getValidationRecordPath(manifestPath: string): string {
+    return manifestPath.replace(/\.xml$/, "") + ".validation.json";
+  }
+
   /**
    * Map component type to Salesforce metadata type name
    */
   private static getMetadataType(componentType: string): string {
-    const typeMap: { [key: string]: string } = {
-      ApexClass: "ApexClass",
-      ApexTrigger: "ApexTrigger",
-      CustomObject: "CustomObject",
-      CustomField: "CustomField",
-      LightningComponentBundle: "LightningComponentBundle",
-      AuraDefinitionBundle: "AuraDefinitionBundle",
-    };
-
-    return typeMap[componentType] || componentType;
+    return MetadataRegistry.getTypeName(componentType);
   }
 
   /**
@@ -154,10 +277,12 @@ ${typesXml}  <version>${apiVersion}</version>
 
   /**
    * Try to detect API version from existing package.xml or sfdx-project.json
+   * In a Metadata API format project, the metadata root's own package.xml comes first
    */
   private static async detectApiVersion(
     workspaceRoot: string,
-    outputChannel?: vscode.OutputChannel
+    outputChannel?: vscode.OutputChannel,
+    metadataRoot?: string | null
   ): Promise<string | null> {
     try {
       // Check for sfdx-project.json
@@ -193,12 +318,19 @@ ${typesXml}  <version>${apiVersion}</version>
       }
 
       // Check for any existing package.xml
-      const packageXmlPath = path.join(
-        workspaceRoot,
-        "manifest",
-        "package.xml"
-      );
-      if (fs.existsSync(packageXmlPath)) {
+      const packageXmlPaths = [
+        ...(metadataRoot ? [path.join(metadataRoot, "package.xml")] : []),
+        path.join(workspaceRoot, "manifest", "package.xml"),
+      ];
+      for (const packageXmlPath of packageXmlPaths) {
+        if (!fs.existsSync(packageXmlPath)) {
+          if (outputChannel) {
+            outputChannel.appendLine(
+              `   ℹ package.xml not found at: ${packageXmlPath}`
+            );
+          }
+          continue;
+        }
         if (outputChannel) {
           outputChannel.appendLine(`   Found package.xml: ${packageXmlPath}`);
         }
@@ -212,12 +344,6 @@ ${typesXml}  <version>${apiVersion}</version>
           }
           return versionMatch[1];
         }
-      } else {
-        if (outputChannel) {
-          outputChannel.appendLine(
-            `   ℹ package.xml not found at: ${packageXmlPath}`
-          );
-        }
       }
 
       if (outputChannel) {
@@ -0,0 +1,18 @@
+/**
+ * Shows quick picks one at a time. VS Code has a single quick pick, so one
+ * job opening it while another job's is showing would dismiss the other;
+ * jobs running side by side for different orgs take turns instead
+ */
+export class PromptQueue {
+  private static last: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Run a prompt once every prompt queued before it has been answered
+   */
+  public static run<T>(prompt: () => Thenable<T>): Promise<T> {
+    const result = this.last.then(() => prompt());
+    // A prompt that throws doesn't hold up the ones after it
+    this.last = result.catch(() => undefined);
+    return result;
+  }
+}
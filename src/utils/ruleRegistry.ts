@@ -0,0 +1,535 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  ComponentInfo,
+  DependencyRule,
+  RuleMatch,
+  RuleResolverHint,
+} from "../types";
+
+const RESOLVER_HINTS: RuleResolverHint[] = ["fieldBySuffix", "objectBySuffix"];
+
+// Suffixes of custom objects, custom metadata types, platform events, big objects and external objects
+const CUSTOM_OBJECT_SUFFIX = /__(c|mdt|e|b|x)$/i;
+
+/**
+ * Built-in missing-dependency rules, tried in order (first match wins per line)
+ */
+const BUILTIN_RULES: DependencyRule[] = [
+  {
+    // "In field: apexClass - no ApexClass named MyClass found"
+    id: "metadata-no-component-named",
+    pattern: /no\s+(\w+)\s+named\s+([\w.]+)\s+found/i,
+    type: "ApexClass",
+    typeGroup: 1,
+    nameGroup: 2,
+    source: "builtin",
+  },
+  {
+    // "Entity of type 'PermissionSet' named 'Sales_Access' cannot be found"
+    id: "metadata-entity-cannot-be-found",
+    pattern:
+      /Entity\s+of\s+type\s+['"](\w+)['"]\s+named\s+['"]([\w.]+)['"]\s+cannot\s+be\s+found/i,
+    type: "ApexClass",
+    typeGroup: 1,
+    nameGroup: 2,
+    source: "builtin",
+  },
+  {
+    // "$Label.My_Label", "System.Label.My_Label" or "@salesforce/label/c.My_Label"
+    // Case-sensitive, so prose such as "the label.value" doesn't match
+    id: "custom-label-reference",
+    pattern:
+      /(?:\$Label\.(?:c\.)?|\b[Ss]ystem\.Label\.|@salesforce\/label\/c\.)(\w+)/,
+    type: "CustomLabel",
+    nameGroup: 1,
+    source: "builtin",
+  },
+  {
+    // "Invalid type: Flow.Interview.My_Flow"
+    id: "apex-flow-interview",
+    pattern: /Flow\.Interview\.(\w+)/i,
+    type: "Flow",
+    nameGroup: 1,
+    source: "builtin",
+  },
+  {
+    // "Flow My_Flow does not exist" / "Flow 'My_Flow' not found"
+    id: "flow-does-not-exist",
+    pattern: /\bFlow\s+['"]?(\w+)['"]?\s+(?:does\s+not\s+exist|not\s+found)/i,
+    type: "Flow",
+    nameGroup: 1,
+    source: "builtin",
+  },
+  {
+    // "No CustomMetadata record named Config__mdt.Default found" / "custom metadata record 'Config.Default'"
+    id: "custom-metadata-record",
+    pattern:
+      /(?:CustomMetadata|custom\s+metadata)\s+record\s+(?:named\s+)?['"]?(\w+?)(?:__mdt)?\.(\w+)['"]?/i,
+    type: "CustomMetadata",
+    objectGroup: 1,
+    nameGroup: 2,
+    source: "builtin",
+  },
+  {
+    // "Static resource 'jQuery' does not exist" / "Static Resource named jQuery not found"
+    id: "static-resource-does-not-exist",
+    pattern:
+      /Static\s*Resource\s+(?:named\s+)?['"]?(\w+)['"]?\s+(?:does\s+not\s+exist|not\s+found)/i,
+    type: "StaticResource",
+    nameGroup: 1,
+    source: "builtin",
+  },
+  {
+    // "Invalid reference @salesforce/resourceUrl/jQuery"
+    id: "static-resource-reference",
+    pattern: /@salesforce\/resourceUrl\/(\w+)/i,
+    type: "StaticResource",
+    nameGroup: 1,
+    source: "builtin",
+  },
+  {
+    // "Lightning Message Channel Record_Selected does not exist"
+    id: "message-channel-does-not-exist",
+    pattern:
+      /(?:Lightning\s*)?Message\s*Channel\s+['"]?(\w+?)(?:__c)?['"]?\s+(?:does\s+not\s+exist|not\s+found)/i,
+    type: "LightningMessageChannel",
+    nameGroup: 1,
+    source: "builtin",
+  },
+  {
+    // "Invalid reference @salesforce/messageChannel/Record_Selected__c"
+    id: "message-channel-reference",
+    pattern: /@salesforce\/messageChannel\/(\w+?)(?:__c)?\b/i,
+    type: "LightningMessageChannel",
+    nameGroup: 1,
+    source: "builtin",
+  },
+  {
+    // "LWC1503: "c/childComponent" is not a known module"
+    id: "lwc-module-reference",
+    pattern: /['"`]c\/([a-zA-Z]\w*)['"`]/,
+    type: "LightningComponentBundle",
+    nameGroup: 1,
+    source: "builtin",
+  },
+  {
+    // "No COMPONENT named markup://c:childCmp found"
+    id: "aura-markup-reference",
+    pattern: /markup:\/\/c:(\w+)/i,
+    type: "AuraDefinitionBundle",
+    nameGroup: 1,
+    source: "builtin",
+  },
+  {
+    // "Invalid reference @salesforce/apex/MyController.getRecords"
+    id: "apex-action-reference",
+    pattern: /@salesforce\/apex(?:Continuation)?\/(\w+)\.\w+/i,
+    type: "ApexClass",
+    nameGroup: 1,
+    source: "builtin",
+  },
+  {
+    // "Unable to find Apex action class referenced as 'MyController'"
+    id: "apex-action-class-not-found",
+    pattern: /Apex\s+action\s+class\s+referenced\s+as\s+['"](\w+)['"]/i,
+    type: "ApexClass",
+    nameGroup: 1,
+    source: "builtin",
+  },
+  {
+    // "Invalid reference @salesforce/schema/Invoice__c.Status__c"
+    id: "schema-field-reference",
+    pattern: /@salesforce\/schema\/(\w+)\.(\w+)/i,
+    type: "CustomField",
+    objectGroup: 1,
+    nameGroup: 2,
+    source: "builtin",
+  },
+  {
+    // "Invalid reference @salesforce/schema/Invoice__c"
+    id: "schema-object-reference",
+    pattern: /@salesforce\/schema\/(\w+)\b/i,
+    type: "CustomObject",
+    nameGroup: 1,
+    source: "builtin",
+  },
+  {
+    // "Named Credential 'Billing_API' does not exist"
+    id: "named-credential-does-not-exist",
+    pattern:
+      /Named\s*Credential\s+['"]?(\w+)['"]?\s+(?:does\s+not\s+exist|not\s+found)/i,
+    type: "NamedCredential",
+    nameGroup: 1,
+    source: "builtin",
+  },
+  {
+    // "The callout couldn't access the endpoint ... callout:Billing_API"
+    id: "named-credential-callout",
+    pattern: /callout:(\w+)/i,
+    type: "NamedCredential",
+    nameGroup: 1,
+    source: "builtin",
+  },
+  {
+    // "Permission set Sales_Access does not exist"
+    id: "permission-set-does-not-exist",
+    pattern:
+      /Permission\s*Set\s+['"]?(\w+)['"]?\s+(?:does\s+not\s+exist|not\s+found)/i,
+    type: "PermissionSet",
+    nameGroup: 1,
+    source: "builtin",
+  },
+  {
+    // "Record type Account.Partner does not exist"
+    id: "record-type-does-not-exist",
+    pattern:
+      /Record\s*Type\s+['"]?(\w+)\.(\w+)['"]?\s+(?:does\s+not\s+exist|not\s+found)/i,
+    type: "RecordType",
+    objectGroup: 1,
+    nameGroup: 2,
+    source: "builtin",
+  },
+  {
+    // "Invalid record type: Account.Partner"
+    id: "record-type-invalid",
+    pattern: /Invalid\s+record\s*type:?\s*['"]?(\w+)\.(\w+)/i,
+    type: "RecordType",
+    objectGroup: 1,
+    nameGroup: 2,
+    source: "builtin",
+  },
+  {
+    // "Class 'ClassName' does not exist"
+    id: "apex-class-does-not-exist",
+    pattern: /Class\s+['"]([\w]+)['"]\s+does\s+not\s+exist/i,
+    type: "ApexClass",
+    nameGroup: 1,
+    source: "builtin",
+  },
+  {
+    // "Invalid type: ClassName" or "Invalid type: Config__mdt"
+    id: "apex-invalid-type",
+    pattern: /Invalid\s+type:\s*([\w_]+)/i,
+    type: "ApexClass",
+    nameGroup: 1,
+    resolverHint: "objectBySuffix",
+    source: "builtin",
+  },
+  {
+    // "Dependent class is invalid and needs recompilation: ClassName"
+    id: "apex-dependent-class-invalid",
+    pattern: /Dependent\s+class\s+is\s+invalid[^:]*:\s*([\w]+)/i,
+    type: "ApexClass",
+    nameGroup: 1,
+    source: "builtin",
+  },
+  {
+    // "sObject type 'CustomObject__c' is not supported"
+    id: "sobject-type-not-supported",
+    pattern: /sObject\s+type\s+['"]([\w_]+)['"]/i,
+    type: "CustomObject",
+    nameGroup: 1,
+    source: "builtin",
+  },
+  {
+    // "No such column 'Field__c' on entity 'CustomObject__c'"
+    // The entity already exists in the org, so only the field is missing
+    id: "soql-no-such-column",
+    pattern:
+      /No\s+such\s+column\s+['"]([\w_]+)['"]\s+on\s+entity\s+['"]([\w_]+)['"]/i,
+    type: "CustomField",
+    objectGroup: 2,
+    nameGroup: 1,
+    source: "builtin",
+  },
+  {
+    // "Variable does not exist: FieldName__c (4:13)" or "Variable does not exist: ClassName"
+    id: "apex-variable-does-not-exist",
+    pattern: /Variable\s+does\s+not\s+exist:\s*([\w_]+)(?:\s*\([\d:]+\))?/i,
+    type: "ApexClass",
+    nameGroup: 1,
+    resolverHint: "fieldBySuffix",
+    source: "builtin",
+  },
+];
+
+export class RuleRegistry {
+  private workspaceRoot: string;
+  private outputChannel?: vscode.OutputChannel;
+  private notify?: (message: string) => void;
+  private workspaceRules: DependencyRule[] = [];
+  private loadedMtime: number | null = null;
+
+  constructor(
+    workspaceRoot: string = "",
+    outputChannel?: vscode.OutputChannel,
+    notify?: (message: string) => void // Surfaces rule file problems to the user
+  ) {
+    this.workspaceRoot = workspaceRoot;
+    this.outputChannel = outputChannel;
+    this.notify = notify;
+  }
+
+  /**
+   * Path of the workspace rules file (.wormhole/rules.json)
+   */
+  public getRulesFilePath(): string {
+    return path.join(this.workspaceRoot, ".wormhole", "rules.json");
+  }
+
+  /**
+   * Get all rules in evaluation order
+   * Workspace rules come first so they can handle messages a built-in would also match;
+   * a workspace rule with the same id as a built-in replaces it
+   */
+  public getRules(): DependencyRule[] {
+    this.reloadIfChanged();
+
+    const overridden = new Set(this.workspaceRules.map((rule) => rule.id));
+    return [
+      ...this.workspaceRules,
+      ...BUILTIN_RULES.filter((rule) => !overridden.has(rule.id)),
+    ];
+  }
+
+  /**
+   * Apply the rules to a single line of error text
+   * Returns the first matching rule, or null if no rule matches
+   */
+  public matchLine(
+    line: string,
+    rules: DependencyRule[] = this.getRules()
+  ): RuleMatch | null {
+    for (const rule of rules) {
+      const match = line.match(rule.pattern);
+      if (match) {
+        return { rule, line, component: this.toComponent(rule, match) };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Apply the rules to every line of a text and return all matches
+   */
+  public testRules(
+    text: string,
+    rules: DependencyRule[] = this.getRules()
+  ): RuleMatch[] {
+    const matches: RuleMatch[] = [];
+    for (const line of text.split("\n")) {
+      const match = this.matchLine(line, rules);
+      if (match) {
+        matches.push(match);
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * Validate a raw rule definition from rules.json
+   * Returns the rule and an empty error list, or the problems found
+   */
+  public static validateRule(
+    raw: any,
+    index: number
+  ): { rule?: DependencyRule; errors: string[] } {
+    const errors: string[] = [];
+    const label = `rules[${index}]${raw && raw.id ? ` (${raw.id})` : ""}`;
+
+    if (!raw || typeof raw !== "object") {
+      return { errors: [`${label}: must be an object`] };
+    }
+    if (typeof raw.id !== "string" || raw.id.trim() === "") {
+      errors.push(`${label}: "id" must be a non-empty string`);
+    }
+    if (typeof raw.type !== "string" || raw.type.trim() === "") {
+      errors.push(`${label}: "type" must be a non-empty string`);
+    }
+    if (
+      raw.resolverHint !== undefined &&
+      !RESOLVER_HINTS.includes(raw.resolverHint)
+    ) {
+      errors.push(
+        `${label}: "resolverHint" must be one of ${RESOLVER_HINTS.join(", ")}`
+      );
+    }
+
+    let pattern: RegExp | undefined;
+    if (typeof raw.pattern !== "string" || raw.pattern === "") {
+      errors.push(`${label}: "pattern" must be a non-empty string`);
+    } else if (typeof raw.flags === "string" && /[gy]/.test(raw.flags)) {
+      // With g or y, String.match returns whole matches instead of capture groups
+      errors.push(`${label}: "flags" must not contain "g" or "y"`);
+    } else {
+      try {
+        pattern = new RegExp(raw.pattern, raw.flags ?? "i");
+      } catch (error: any) {
+        errors.push(`${label}: invalid "pattern": ${error.message}`);
+      }
+    }
+
+    // Capture groups must exist in the pattern
+    const groupCount = pattern
+      ? new RegExp(`${pattern.source}|`).exec("")!.length - 1
+      : 0;
+    const checkGroup = (field: string, value: any, required: boolean) => {
+      if (value === undefined && !required) {
+        return;
+      }
+      if (!Number.isInteger(value) || value < 1) {
+        errors.push(`${label}: "${field}" must be a positive integer`);
+      } else if (pattern && value > groupCount) {
+        errors.push(
+          `${label}: "${field}" is ${value} but the pattern has ${groupCount} capture group(s)`
+        );
+      }
+    };
+    checkGroup("nameGroup", raw.nameGroup, true);
+    checkGroup("objectGroup", raw.objectGroup, false);
+    checkGroup("typeGroup", raw.typeGroup, false);
+
+    if (errors.length > 0 || !pattern) {
+      return { errors };
+    }
+
+    return {
+      rule: {
+        id: raw.id,
+        pattern,
+        type: raw.type,
+        typeGroup: raw.typeGroup,
+        nameGroup: raw.nameGroup,
+        objectGroup: raw.objectGroup,
+        resolverHint: raw.resolverHint,
+        description: raw.description,
+        source: "workspace",
+      },
+      errors,
+    };
+  }
+
+  /**
+   * Build the component named by a rule match
+   */
+  private toComponent(
+    rule: DependencyRule,
+    match: RegExpMatchArray
+  ): ComponentInfo | null {
+    const name = match[rule.nameGroup];
+
+    // Skip names that are just a number or too short (likely a mis-parsed line number)
+    if (!name || /^\d+$/.test(name) || name.length <= 1) {
+      return null;
+    }
+
+    let type =
+      rule.typeGroup !== undefined && match[rule.typeGroup]
+        ? match[rule.typeGroup]
+        : rule.type;
+    if (rule.resolverHint === "fieldBySuffix" && name.endsWith("__c")) {
+      // Will be resolved to "ObjectName.FieldName__c" later
+      type = "CustomField";
+    } else if (
+      (rule.resolverHint === "fieldBySuffix" ||
+        rule.resolverHint === "objectBySuffix") &&
+      CUSTOM_OBJECT_SUFFIX.test(name)
+    ) {
+      type = "CustomObject";
+    }
+
+    const objectName =
+      rule.objectGroup !== undefined ? match[rule.objectGroup] : undefined;
+
+    return {
+      type,
+      name: objectName ? `${objectName}.${name}` : name,
+    };
+  }
+
+  /**
+   * Load .wormhole/rules.json when it was created or modified since the last load
+   */
+  private reloadIfChanged(): void {
+    if (!this.workspaceRoot) {
+      return;
+    }
+
+    const rulesPath = this.getRulesFilePath();
+    let mtime: number | null = null;
+    try {
+      mtime = fs.statSync(rulesPath).mtimeMs;
+    } catch {
+      mtime = null;
+    }
+
+    if (mtime === this.loadedMtime) {
+      return;
+    }
+    this.loadedMtime = mtime;
+    this.workspaceRules = mtime === null ? [] : this.loadRules(rulesPath);
+  }
+
+  /**
+   * Read and validate workspace rules, skipping invalid entries
+   */
+  private loadRules(rulesPath: string): DependencyRule[] {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(fs.readFileSync(rulesPath, "utf8"));
+    } catch (error: any) {
+      this.reportErrors(rulesPath, [`Could not parse JSON: ${error.message}`]);
+      return [];
+    }
+
+    const rawRules = Array.isArray(parsed) ? parsed : parsed?.rules;
+    if (!Array.isArray(rawRules)) {
+      this.reportErrors(rulesPath, ['Expected a "rules" array']);
+      return [];
+    }
+
+    const rules: DependencyRule[] = [];
+    const errors: string[] = [];
+    const seenIds = new Set<string>();
+    rawRules.forEach((raw: any, index: number) => {
+      const validation = RuleRegistry.validateRule(raw, index);
+      if (!validation.rule) {
+        errors.push(...validation.errors);
+        return;
+      }
+      if (seenIds.has(validation.rule.id)) {
+        errors.push(`rules[${index}]: duplicate id "${validation.rule.id}"`);
+        return;
+      }
+      seenIds.add(validation.rule.id);
+      rules.push(validation.rule);
+    });
+
+    if (errors.length > 0) {
+      this.reportErrors(rulesPath, errors);
+    }
+    if (this.outputChannel) {
+      this.outputChannel.appendLine(
+        `📐 Loaded ${rules.length} workspace dependency rule(s) from ${rulesPath}`
+      );
+    }
+
+    return rules;
+  }
+
+  private reportErrors(rulesPath: string, errors: string[]): void {
+    if (this.outputChannel) {
+      this.outputChannel.appendLine(`⚠️  Problems in ${rulesPath}:`);
+      errors.forEach((error) =>
+        this.outputChannel!.appendLine(`   - ${error}`)
+      );
+    }
+    if (this.notify) {
+      this.notify(
+        `SF Wormhole Deploy: ${errors.length} problem(s) in .wormhole/rules.json. Check output for details.`
+      );
+    }
+  }
+}
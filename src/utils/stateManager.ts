@@ -1,25 +1,110 @@
-import { DeploymentQueueItem, ComponentInfo } from "../types";
+import {
+  DeployOptions,
+  DeploymentQueueItem,
+  ComponentInfo,
+  ValidationRecord,
+} from "../types";
 
 export class StateManager {
   private deploymentQueue: DeploymentQueueItem[] = [];
   private deployedComponents: Set<string> = new Set();
-  private maxRetries: number = 3;
+  private nextJobId: number = 1;
+  private queueListeners: (() => void)[] = [];
 
   /**
    * Queue components for deployment
    */
-  public queueDeployment(components: ComponentInfo[]): void {
-    this.deploymentQueue.push({
+  public queueDeployment(
+    components: ComponentInfo[],
+    options: DeployOptions,
+    validation?: ValidationRecord
+  ): DeploymentQueueItem {
+    const item: DeploymentQueueItem = {
+      id: this.nextJobId++,
       components,
-      retryCount: 0,
-    });
+      options,
+      validation,
+      queuedAt: new Date().toISOString(),
+      status: "pending",
+    };
+    this.deploymentQueue.push(item);
+    this.notifyQueueChanged();
+    return item;
   }
 
   /**
-   * Get next item from queue
+   * Get next item from queue: the first pending job whose org has no running job
+   * Orgs are keyed by username, so an alias and its username are one org
+   * The job is marked running until completeDeployment
    */
   public getNextQueuedItem(): DeploymentQueueItem | undefined {
-    return this.deploymentQueue.shift();
+    const busyOrgs = new Set(
+      this.deploymentQueue
+        .filter((item) => item.status === "running")
+        .map((item) => this.orgKey(item))
+    );
+    const item = this.deploymentQueue.find(
+      (candidate) =>
+        candidate.status === "pending" && !busyOrgs.has(this.orgKey(candidate))
+    );
+    if (item) {
+      item.status = "running";
+      this.notifyQueueChanged();
+    }
+    return item;
+  }
+
+  /**
+   * Remove a finished job from the queue
+   */
+  public completeDeployment(item: DeploymentQueueItem): void {
+    this.deploymentQueue = this.deploymentQueue.filter(
+      (queued) => queued !== item
+    );
+    this.notifyQueueChanged();
+  }
+
+  /**
+   * Remove a pending job; running jobs are cancelled from their progress notification
+   * Returns false if the job is not pending
+   */
+  public cancelQueued(item: DeploymentQueueItem): boolean {
+    if (item.status !== "pending" || !this.deploymentQueue.includes(item)) {
+      return false;
+    }
+    this.completeDeployment(item);
+    return true;
+  }
+
+  /**
+   * Move a pending job up (negative offset) or down among the pending jobs
+   * Returns false if it can't move that way
+   */
+  public moveQueued(item: DeploymentQueueItem, offset: number): boolean {
+    const pending = this.deploymentQueue.filter(
+      (queued) => queued.status === "pending"
+    );
+    const from = pending.indexOf(item);
+    const to = from + offset;
+    if (from === -1 || to < 0 || to >= pending.length) {
+      return false;
+    }
+
+    pending.splice(from, 1);
+    pending.splice(to, 0, item);
+    this.deploymentQueue = [
+      ...this.deploymentQueue.filter((queued) => queued.status === "running"),
+      ...pending,
+    ];
+    this.notifyQueueChanged();
+    return true;
+  }
+
+  /**
+   * Running jobs first, then pending jobs in the order they will start
+   */
+  public getQueue(): DeploymentQueueItem[] {
+    return [...this.deploymentQueue];
   }
 
   /**
@@ -29,6 +114,13 @@ export class StateManager {
     return this.deploymentQueue.length === 0;
   }
 
+  /**
+   * Call the listener whenever a job is queued, started, moved or removed
+   */
+  public onQueueChanged(listener: () => void): void {
+    this.queueListeners.push(listener);
+  }
+
   /**
    * Mark component as deployed
    */
@@ -46,25 +138,17 @@ export class StateManager {
   }
 
   /**
-   * Increment retry count for a queue item
+   * Get current queue size
    */
-  public incrementRetry(item: DeploymentQueueItem): boolean {
-    item.retryCount++;
-    return item.retryCount < this.maxRetries;
+  public getQueueSize(): number {
+    return this.deploymentQueue.length;
   }
 
-  /**
-   * Clear all state
-   */
-  public clear(): void {
-    this.deploymentQueue = [];
-    this.deployedComponents.clear();
+  private orgKey(item: DeploymentQueueItem): string {
+    return item.options.targetOrg || "";
   }
 
-  /**
-   * Get current queue size
-   */
-  public getQueueSize(): number {
-    return this.deploymentQueue.length;
+  private notifyQueueChanged(): void {
+    this.queueListeners.forEach((listener) => listener());
   }
 }